@@ -0,0 +1,201 @@
+import type { Result } from ".";
+import { ErrorResult } from "./impls/error";
+import { OkResult } from "./impls/ok";
+import { ResultPromise } from "./impls/promise";
+import { AsyncResults } from "./internal/types";
+
+/**
+ * Collects an asynchronous stream of {@link Result} into a {@link Result.Promise} of an array of the success values.
+ * Consumes the stream lazily, stopping at (and closing the stream on) the first {@link Result.Error}.
+ *
+ * @function collect
+ * @template T The type of the success values.
+ * @template E The type of the error values.
+ * @param {AsyncResults<T, E>} results The stream of {@link Result}.
+ * @returns {Result.Promise<T[], E>} A {@link Result.Promise} resolving to the success values, or to the first error.
+ *
+ * @example
+ * ```typescript
+ * async function *pages(): AsyncGenerator<Result<Page, HttpError>>
+ * {
+ *   // ...
+ * }
+ *
+ * const all = await Result.Async.collect(pages()); // Result<Page[], HttpError>
+ * ```
+ */
+export function collect<T, E>(results: AsyncResults<T, E>): Result.Promise<T[], E> {
+	return settle((async(): Promise<Result<T[], E>> => {
+		const values: T[] = [];
+		for await (const result of results) {
+			if (!result.ok) {
+				return result;
+			}
+
+			values.push(result.value);
+		}
+
+		return new OkResult(values);
+	})());
+}
+
+/**
+ * Lazily maps the values of every {@link Result.Ok} in an asynchronous stream of {@link Result},
+ * passing every {@link Result.Error} through unchanged.
+ *
+ * @function mapOk
+ * @template T The type of the success values.
+ * @template E The type of the error values.
+ * @template U The type of the mapped success values.
+ * @param {AsyncResults<T, E>} results The stream of {@link Result}.
+ * @param {(value: T) => U | PromiseLike<U>} fn The function to map each success value with.
+ * @returns {AsyncGenerator<Result<U, E>, void, undefined>} The stream of mapped {@link Result}.
+ *
+ * @example
+ * ```typescript
+ * const titles = Result.Async.mapOk(pages(), page => page.title); // AsyncGenerator<Result<string, HttpError>>
+ * ```
+ */
+export async function *mapOk<T, E, U>(results: AsyncResults<T, E>, fn: (value: T) => U | PromiseLike<U>): AsyncGenerator<Result<U, E>, void, undefined> {
+	for await (const result of results) {
+		yield result.ok
+			? new OkResult(await fn(result.value))
+			: result;
+	}
+}
+
+/**
+ * Lazily filters out every {@link Result.Ok} whose value does not satisfy a predicate from an asynchronous stream of {@link Result},
+ * passing every {@link Result.Error} through unchanged.
+ *
+ * @function filterOk
+ * @template T The type of the success values.
+ * @template E The type of the error values.
+ * @param {AsyncResults<T, E>} results The stream of {@link Result}.
+ * @param {(value: T) => boolean | PromiseLike<boolean>} predicate The predicate each success value must satisfy.
+ * @returns {AsyncGenerator<Result<T, E>, void, undefined>} The stream of filtered {@link Result}.
+ *
+ * @example
+ * ```typescript
+ * const published = Result.Async.filterOk(pages(), page => page.published);
+ * ```
+ */
+export function filterOk<T, U extends T, E>(results: AsyncResults<T, E>, predicate: (value: T) => value is U): AsyncGenerator<Result<U, E>, void, undefined>;
+export function filterOk<T, E>(results: AsyncResults<T, E>, predicate: (value: T) => boolean | PromiseLike<boolean>): AsyncGenerator<Result<T, E>, void, undefined>;
+export async function *filterOk<T, E>(results: AsyncResults<T, E>, predicate: (value: T) => boolean | PromiseLike<boolean>): AsyncGenerator<Result<T, E>, void, undefined> {
+	for await (const result of results) {
+		if (!result.ok || await predicate(result.value)) {
+			yield result;
+		}
+	}
+}
+
+/**
+ * Lazily takes the {@link Result} of an asynchronous stream up to and including the first {@link Result.Error},
+ * then closes the stream.
+ *
+ * @function takeWhileOk
+ * @template T The type of the success values.
+ * @template E The type of the error values.
+ * @param {AsyncResults<T, E>} results The stream of {@link Result}.
+ * @returns {AsyncGenerator<Result<T, E>, void, undefined>} The stream of {@link Result}, ending after the first error.
+ *
+ * @example
+ * ```typescript
+ * for await (const page of Result.Async.takeWhileOk(pages()))
+ * {
+ *   // the last page may be a Result.Error, after which no more pages are requested
+ * }
+ * ```
+ */
+export async function *takeWhileOk<T, E>(results: AsyncResults<T, E>): AsyncGenerator<Result<T, E>, void, undefined> {
+	for await (const result of results) {
+		yield result;
+
+		if (!result.ok) {
+			return;
+		}
+	}
+}
+
+/**
+ * Consumes a whole asynchronous stream of {@link Result}, splitting it into the values of every {@link Result.Ok}
+ * and the errors of every {@link Result.Error}, preserving their relative order.
+ *
+ * @function partition
+ * @template T The type of the success values.
+ * @template E The type of the error values.
+ * @param {AsyncResults<T, E>} results The stream of {@link Result}.
+ * @returns {Promise<[T[], E[]]>} A promise of a tuple with the success values and the error values.
+ *
+ * @example
+ * ```typescript
+ * const [pages, errors] = await Result.Async.partition(pages());
+ * ```
+ */
+export async function partition<T, E>(results: AsyncResults<T, E>): Promise<[T[], E[]]> {
+	const values: T[] = [];
+	const errors: E[] = [];
+	for await (const result of results) {
+		if (result.ok) {
+			values.push(result.value);
+		} else {
+			errors.push(result.error);
+		}
+	}
+
+	return [values, errors];
+}
+
+/**
+ * Calls a function with the value of every {@link Result.Ok} in an asynchronous stream of {@link Result}, in order,
+ * failing fast: stops at (and closes the stream on) the first {@link Result.Error} of the stream,
+ * or the first {@link Result.Error} returned by the function.
+ *
+ * A thrown error or rejection, whether from the stream or the function, rejects the returned promise.
+ *
+ * @function forEach
+ * @template T The type of the success values.
+ * @template E The type of the error values of the stream.
+ * @template F The type of the error values returned by the function.
+ * @param {AsyncResults<T, E>} results The stream of {@link Result}.
+ * @param {(value: T) => unknown} fn The function to call with each success value, which may return a {@link Result.Error} to stop early.
+ * @returns {Result.Promise<void, E | F>} A {@link Result.Promise} resolving once the stream is consumed, or to the first error.
+ *
+ * @example
+ * ```typescript
+ * const imported = await Result.Async.forEach(pages(), page => saveAll(page.items)); // Result<void, HttpError | DbError>
+ * ```
+ */
+export function forEach<T, E, F>(results: AsyncResults<T, E>, fn: (value: T) => Result<unknown, F> | PromiseLike<Result<unknown, F>>): Result.Promise<void, E | F>;
+export function forEach<T, E>(results: AsyncResults<T, E>, fn: (value: T) => unknown): Result.Promise<void, E>;
+export function forEach<T, E, F>(results: AsyncResults<T, E>, fn: (value: T) => unknown): Result.Promise<void, E | F> {
+	return settle((async(): Promise<Result<void, E | F>> => {
+		for await (const result of results) {
+			const outcome: unknown = result.ok
+				? await fn(result.value)
+				: result;
+
+			if (outcome instanceof ErrorResult) {
+				return outcome as ErrorResult<E | F>;
+			}
+		}
+
+		return new OkResult(undefined);
+	})());
+}
+
+/**
+ * Internal utility function for settling a {@link Result.Promise} with the {@link Result} of a native promise,
+ * which only resolves once any stream consumed by it is closed.
+ *
+ * @param {Promise<Result<T, E>>} promise The native promise of a {@link Result}.
+ * @returns {Result.Promise<T, E>} A {@link Result.Promise} resolving to the same {@link Result}, or rejecting for the same reason.
+ */
+function settle<T, E>(promise: Promise<Result<T, E>>): Result.Promise<T, E> {
+	return new ResultPromise((resolve, reject, catcher) => {
+		void promise.then(result => result.ok
+			? resolve(result.value)
+			: reject(result.error), catcher);
+	});
+}
@@ -0,0 +1,164 @@
+/**
+ * An {@link Error} discriminated by a `_tag` field, as created through {@link TaggedError}.
+ *
+ * @template Tag The discriminant of the error.
+ */
+export type Tagged<Tag extends string> = Error & {
+	/**
+	 * The discriminant of the error, used by {@link Result.Ok.catchTag}, {@link Result.Ok.match} and friends.
+	 */
+	readonly _tag: Tag;
+
+	/**
+	 * The error that caused this one, if any.
+	 */
+	readonly cause?: unknown;
+};
+
+/**
+ * The constructor of a {@link Tagged} error class, as returned by {@link TaggedError}.
+ *
+ * @template Tag The discriminant of the error.
+ */
+export type TaggedErrorConstructor<Tag extends string> = new(message?: string, options?: { readonly cause?: unknown }) => Tagged<Tag>;
+
+/**
+ * Creates a base class for errors discriminated by a `_tag` field, whose `name` is also the tag.
+ *
+ * Unions of such errors can be narrowed with {@link Result.Ok.catchTag} and {@link Result.Ok.catchTags},
+ * and matched exhaustively with {@link Result.Ok.match}.
+ *
+ * @function TaggedError
+ * @template Tag The discriminant of the error.
+ * @param {Tag} tag The discriminant of the error.
+ * @returns {TaggedErrorConstructor<Tag>} A base class to extend.
+ *
+ * @example
+ * ```typescript
+ * class NotFound extends TaggedError("NotFound")
+ * {
+ *   public constructor(public readonly id: string)
+ *   {
+ *     super(`user ${id} not found`);
+ *   }
+ * }
+ *
+ * class Conflict extends TaggedError("Conflict") {}
+ *
+ * const error = new NotFound("42");
+ * console.log(error._tag); // output: "NotFound"
+ * console.log(error instanceof Error); // output: true
+ * ```
+ */
+export function TaggedError<Tag extends string>(tag: Tag): TaggedErrorConstructor<Tag> {
+	return class extends Error {
+		public readonly _tag: Tag = tag;
+
+		public override readonly name: string = tag;
+
+		public readonly cause?: unknown;
+
+		public constructor(message?: string, options?: { readonly cause?: unknown }) {
+			super(message);
+
+			if (options && "cause" in options) {
+				this.cause = options.cause;
+			}
+		}
+	};
+}
+
+/**
+ * The error wrapping the error of a {@link Result.Error} with a description of what was being done when it occurred.
+ * The original error is kept as its `cause`, building a chain that can be rendered with {@link Result.report}.
+ *
+ * @template E The type of the wrapped error.
+ * @see {@link Result.Error.context}
+ */
+export class ContextError<E = unknown> extends TaggedError("ContextError") {
+	/**
+	 * The wrapped error.
+	 */
+	declare public readonly cause: E;
+
+	public constructor(context: string, cause: E) {
+		super(context, { cause });
+	}
+}
+
+/**
+ * The error contained in a {@link Result.Error} when a value cannot be revived into a {@link Result}.
+ *
+ * @see {@link Result.revive}
+ */
+export class DecodeError extends TaggedError("DecodeError") {}
+
+/**
+ * The error contained in a {@link Result.Error} when a defect, i.e. an error thrown by a callback or a rejected promise,
+ * is folded into the error channel of a {@link Result.Promise}. Its `cause` is the thrown error or rejection reason.
+ *
+ * @see {@link Result.Promise.sandbox}
+ */
+export class Defect extends TaggedError("Defect") {
+	public constructor(cause: unknown) {
+		super("an unexpected error occurred", { cause });
+	}
+}
+
+/**
+ * The error combining the failure to use a resource with the failure to release it afterwards,
+ * as produced by {@link Result.bracket} and {@link Result.Promise.bracket}.
+ * Its `error` is the failure to use the resource, and its `cause` the failure to release it.
+ *
+ * @template E The type of the failure to use the resource.
+ * @template G The type of the failure to release the resource.
+ * @see {@link Result.bracket}
+ */
+export class ReleaseError<E = unknown, G = unknown> extends TaggedError("ReleaseError") {
+	/**
+	 * The failure to use the resource.
+	 */
+	public readonly error: E;
+
+	/**
+	 * The failure to release the resource.
+	 */
+	declare public readonly cause: G;
+
+	public constructor(error: E, cause: G) {
+		super("failed to release a resource after failing to use it", { cause });
+
+		this.error = error;
+	}
+}
+
+/**
+ * The error contained in a {@link Result.Error} when a {@link Result.Promise} does not settle within its time limit.
+ *
+ * @see {@link Result.Promise.timeout}
+ */
+export class TimeoutError extends TaggedError("TimeoutError") {
+	/**
+	 * The time limit, in milliseconds, that was exceeded.
+	 */
+	public readonly ms: number;
+
+	public constructor(ms: number) {
+		super("timed out after " + String(ms) + "ms");
+
+		this.ms = ms;
+	}
+}
+
+/**
+ * The error contained in a {@link Result.Error} when a {@link Result.Promise} is aborted through an {@link AbortSignal}.
+ * Its `cause` is the abort reason of the signal, if any.
+ *
+ * @see {@link Result.Promise.fromAbortable}
+ * @see {@link Result.Promise.once}
+ */
+export class AbortedError extends TaggedError("AbortedError") {
+	public constructor(cause?: unknown) {
+		super("the operation was aborted", { cause });
+	}
+}
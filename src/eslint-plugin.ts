@@ -0,0 +1,50 @@
+import type { TSESLint } from "@typescript-eslint/utils";
+import { mustUseResult } from "./rules/must-use-result";
+import { noFloatingResultPromise } from "./rules/no-floating-result-promise";
+import { noUnwrapWithoutCheck } from "./rules/no-unwrap-without-check";
+
+/**
+ * The rules of the plugin, which all require type information (i.e. `parserOptions.projectService` or `parserOptions.project`).
+ */
+const rules = {
+	"must-use-result": mustUseResult,
+	"no-unwrap-without-check": noUnwrapWithoutCheck,
+	"no-floating-result-promise": noFloatingResultPromise
+};
+
+/**
+ * An ESLint plugin catching misuses of {@link Result} and {@link Result.Promise}: discarded results,
+ * floating result promises, and unchecked calls to `unwrap` and friends.
+ *
+ * @example
+ * ```typescript
+ * // eslint.config.mts
+ * import result from "result/eslint-plugin";
+ * import tseslint from "typescript-eslint";
+ *
+ * export default tseslint.config(
+ *   tseslint.configs.recommendedTypeChecked,
+ *   result.configs.recommended
+ * );
+ * ```
+ */
+const plugin = {
+	meta: {
+		name: "eslint-plugin-result"
+	},
+	rules,
+	configs: {} as Record<"recommended", TSESLint.FlatConfig.Config>
+};
+
+plugin.configs.recommended = {
+	plugins: {
+		result: plugin
+	},
+	rules: {
+		"result/must-use-result": "error",
+		"result/no-unwrap-without-check": "error",
+		"result/no-floating-result-promise": "error"
+	}
+};
+
+export default plugin;
@@ -1,6 +1,15 @@
-import type Result from ".";
+import type { Option, Result } from ".";
+import { DecodeError } from "./errors";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars -- ReleaseError type information is used in JSDocs
+import type { ReleaseError } from "./errors";
 import { ErrorResult } from "./impls/error";
+import { NoneOption } from "./impls/none";
 import { OkResult } from "./impls/ok";
+import { ResultPromise } from "./impls/promise";
+import { SomeOption } from "./impls/some";
+import { aggregate, canonicalize, capture, completeBracket, disposeSymbol, isThenable, normalizeIssues } from "./internal/helpers";
+import { decodeResult, isResultJSON } from "./internal/json";
+import { Aggregated, DisposableResource, ErrorReport, ErrorType, FromOptions, NodeCallback, OkType, OkTypes, ReleaseFailure, ReviveOptions, SchemaIssues, SchemaOutput, StandardSchema, ValidateOptions } from "./internal/types";
 
 /**
  * Creates variant of a {@link Result<T>} representing success and (usually) containing a value.
@@ -60,6 +69,12 @@ export function error<E>(err: E): Result.Error<E> {
  * If the function executes successfully, the result is wrapped in a {@link Result.Ok}.
  * If the function throws an error, the error is wrapped in a {@link Result.Error}.
  *
+ * If the function returns a promise (or any thenable), a {@link Result.Promise} is returned instead,
+ * resolving to a {@link Result.Error} if the promise rejects.
+ *
+ * Every argument after the function is passed on to it, even an object with a `mapError` function,
+ * so the mapping form `Result.from(fn, { mapError })` is provided as {@link attempt} instead.
+ *
  * @function from
  * @template F The type of the function to be executed.
  * @param {F} fn The function to execute.
@@ -89,16 +104,162 @@ export function error<E>(err: E): Result.Error<E> {
  * {
  *   console.error('Error:', errorResult.error); // output: "Error: division by zero"
  * }
+ *
+ * const response = Result.from(() => fetch(url)); // Result.Promise<Response, unknown>
  * ```
  */
-export function from<F extends(...parameters: Parameters<F>) => ReturnType<F>>(fn: F, ...args: Parameters<F>): Result<ReturnType<F>> {
-	try {
-		const result = fn(...args);
+export function from<F extends(...parameters: Parameters<F>) => PromiseLike<unknown>>(fn: F, ...args: Parameters<F>): Result.Promise<Awaited<ReturnType<F>>>;
+export function from<F extends(...parameters: Parameters<F>) => ReturnType<F>>(fn: F, ...args: Parameters<F>): Result<ReturnType<F>>;
+export function from(fn: (...parameters: unknown[]) => unknown, ...args: unknown[]): Result<unknown> | Result.Promise<unknown> {
+	return execute(() => fn(...args));
+}
+
+/**
+ * Executes a function without arguments and wraps its result in a {@link Result}, like {@link from},
+ * mapping the thrown error (or rejection reason) to the error value through `mapError`, which types the error channel.
+ *
+ * If the function returns a promise (or any thenable), a {@link Result.Promise} is returned instead,
+ * resolving to a {@link Result.Error} if the promise rejects.
+ *
+ * @function attempt
+ * @template T The type of the return value of the function.
+ * @template E The type of the error value.
+ * @param {() => T} fn The function to execute.
+ * @param {FromOptions<E>} [options] The function mapping a thrown error (or rejection reason) to the error value.
+ * @returns {Result<T, E>} A {@link Result} containing either the function's return value or the mapped error.
+ *
+ * @example
+ * ```typescript
+ * const config = Result.attempt(() => JSON.parse(text) as Config, {
+ *   mapError: error => new ConfigError("invalid config", { cause: error })
+ * }); // Result<Config, ConfigError>
+ *
+ * const response = Result.attempt(() => fetch(url), { mapError: () => "offline" as const }); // Result.Promise<Response, "offline">
+ * ```
+ */
+export function attempt<T, E = unknown>(fn: () => PromiseLike<T>, options?: FromOptions<E>): Result.Promise<T, E>;
+export function attempt<T, E = unknown>(fn: () => T, options?: FromOptions<E>): Result<T, E>;
+export function attempt(fn: () => unknown, options?: FromOptions<unknown>): Result<unknown> | Result.Promise<unknown> {
+	return execute(fn, options?.mapError);
+}
+
+/**
+ * Wraps a throwing function into a function with the same parameters, that returns a {@link Result} instead of throwing.
+ * If the wrapped function returns a promise (or any thenable), a {@link Result.Promise} is returned instead.
+ *
+ * @function wrap
+ * @template A The types of the parameters of the function.
+ * @template T The type of the return value of the function.
+ * @template E The type of the error value.
+ * @param {(...args: A) => T} fn The function to wrap.
+ * @param {FromOptions<E>} [options] The function mapping a thrown error (or rejection reason) to the error value.
+ * @returns {(...args: A) => Result<T, E>} The wrapped function.
+ *
+ * @example
+ * ```typescript
+ * const parseJSON = Result.wrap(JSON.parse, { mapError: () => "invalid JSON" as const });
+ *
+ * const value = parseJSON("{}"); // Result<any, "invalid JSON">
+ *
+ * const readFile = Result.wrap(fs.promises.readFile);
+ *
+ * const contents = await readFile("config.json", "utf8"); // Result<string, unknown>
+ * ```
+ */
+export function wrap<A extends unknown[], T, E = unknown>(fn: (...args: A) => PromiseLike<T>, options?: FromOptions<E>): (...args: A) => Result.Promise<T, E>;
+export function wrap<A extends unknown[], T, E = unknown>(fn: (...args: A) => T, options?: FromOptions<E>): (...args: A) => Result<T, E>;
+export function wrap(fn: (...args: unknown[]) => unknown, options?: FromOptions<unknown>): (...args: unknown[]) => Result<unknown> | Result.Promise<unknown> {
+	return (...args) => execute(() => fn(...args), options?.mapError);
+}
 
-		return new OkResult(result);
+function execute(fn: () => unknown, mapError: (error: unknown) => unknown = err => err): Result<unknown> | Result.Promise<unknown> {
+	let value: unknown;
+	try {
+		value = fn();
 	} catch (err: unknown) {
-		return new ErrorResult(err);
+		return new ErrorResult(mapError(err));
+	}
+
+	if (!isThenable(value)) {
+		return new OkResult(value);
+	}
+
+	return new ResultPromise((resolve, reject, catcher) => {
+		void value.then(resolve, (reason: unknown) => reject(mapError(reason))).then(undefined, catcher);
+	});
+}
+
+/**
+ * Wraps a function taking a Node.js-style callback as its last parameter into a function that takes the other parameters,
+ * and returns a {@link Result.Promise} instead. The promise resolves to a {@link Result.Error} if the callback is called
+ * with an error, and to a {@link Result.Ok} with the value passed to the callback otherwise. It rejects if the function throws.
+ *
+ * @function promisify
+ * @template A The types of the parameters of the function, without the callback.
+ * @template T The type of the value passed to the callback.
+ * @param {(...args: [...A, NodeCallback<T, Error>]) => void} fn The function to wrap.
+ * @returns {(...args: A) => Result.Promise<T, Error>} The wrapped function.
+ *
+ * @example
+ * ```typescript
+ * const readFile = Result.promisify(fs.readFile);
+ *
+ * const contents = await readFile("config.json"); // Result<Buffer, Error>
+ * ```
+ */
+export function promisify<A extends unknown[], T = void>(fn: (...args: [...A, NodeCallback<T, Error>]) => void): (...args: A) => Result.Promise<T, Error> {
+	return (...args) => ResultPromise.fromCallback<T>(callback => fn(...args, callback));
+}
+
+/**
+ * Acquires a resource, uses it, and always releases it afterwards, even when using it returns a {@link Result.Error} or throws.
+ * If acquiring the resource fails, it is neither used nor released.
+ *
+ * The resource is released with the `release` function if given, or else through its `Symbol.dispose` method.
+ * If releasing fails, by returning a {@link Result.Error} or by throwing, the failure is combined with the failure
+ * to use the resource, if any, into a {@link ReleaseError}.
+ *
+ * Throwing takes precedence over returning: the outcome is thrown if either call threw, even if the other one returned
+ * a {@link Result.Error}, and returned otherwise. Only the errors of returned {@link Result.Error} appear in the type.
+ *
+ * @function bracket
+ * @template R The type of the resource.
+ * @template E The type of the error value of acquiring the resource.
+ * @template T The type of the success value of using the resource.
+ * @template F The type of the error value of using the resource.
+ * @template U The type returned by releasing the resource.
+ * @param {() => Result<R, E>} acquire The function acquiring the resource.
+ * @param {(resource: R) => Result<T, F>} use The function using the resource.
+ * @param {(resource: R) => U} [release] The function releasing the resource, which may return a {@link Result}.
+ * @returns {Result<T, E | F | ReleaseFailure<F, U>>} The {@link Result} of using the resource, combined with any failure to release it.
+ *
+ * @example
+ * ```typescript
+ * const rows = Result.bracket(
+ *   () => db.connect(), // Result<Connection, ConnectError>
+ *   connection => connection.query(sql), // Result<Row[], QueryError>
+ *   connection => connection.close() // Result<void, CloseError>
+ * ); // Result<Row[], ConnectError | QueryError | CloseError | ReleaseError<QueryError, CloseError>>
+ *
+ * const contents = Result.bracket(() => openFile(path), file => file.read()); // released through file[Symbol.dispose]()
+ * ```
+ */
+export function bracket<R extends DisposableResource, E, T, F>(acquire: () => Result<R, E>, use: (resource: R) => Result<T, F>): Result<T, E | F>;
+export function bracket<R, E, T, F, U>(acquire: () => Result<R, E>, use: (resource: R) => Result<T, F>, release: (resource: R) => U): Result<T, E | F | ReleaseFailure<F, U>>;
+export function bracket<R, E, T, F>(acquire: () => Result<R, E>, use: (resource: R) => Result<T, F>, release?: (resource: R) => unknown): Result<T> {
+	const acquired = acquire();
+	if (!acquired.ok) {
+		return acquired;
 	}
+
+	const resource = acquired.value;
+
+	const used = capture(() => use(resource));
+	const released = capture(() => release
+		? release(resource)
+		: (resource as DisposableResource)[disposeSymbol]());
+
+	return completeBracket<T, F, unknown>(used, released);
 }
 
 /**
@@ -143,7 +304,7 @@ export function is<T = unknown, E = unknown>(result: unknown): result is Result<
  *
  * @function isOk
  * @template T The type of the success value.
- * @param {Result<T, unknown>} result The result to check.
+ * @param {Result<T>} result The result to check.
  * @returns {boolean} `true` if the result is in {@link Result.Ok}, `false` otherwise.
  *
  * @example
@@ -291,6 +452,226 @@ export function or<T extends readonly Result<unknown>[]>(results: T): T[number]
 	return results[results.length - 1];
 }
 
+/**
+ * Combines a tuple, array or record of {@link Result} into a single {@link Result}.
+ *
+ * If all results are {@link Result.Ok}, returns a {@link Result.Ok} containing their values,
+ * in the same shape as the given tuple, array or record.
+ * Otherwise, returns the first {@link Result.Error} found.
+ *
+ * @function all
+ * @template T The tuple, array or record of {@link Result}.
+ * @param {T} results The tuple, array or record of {@link Result}.
+ * @returns {Result<OkTypes<T>, ErrorType<T[keyof T]>>} A {@link Result.Ok} with all values, or the first {@link Result.Error}.
+ *
+ * @example
+ * ```typescript
+ * const result1 = Result.ok(42);
+ * const result2 = Result.ok("hello");
+ *
+ * const tuple = Result.all([result1, result2]); // Result<[number, string], never>
+ * if (tuple.ok)
+ * {
+ *   console.log(tuple.value); // output: [42, "hello"]
+ * }
+ *
+ * const record = Result.all({ answer: result1, greeting: result2 }); // Result<{ answer: number; greeting: string }, never>
+ * if (record.ok)
+ * {
+ *   console.log(record.value); // output: { answer: 42, greeting: "hello" }
+ * }
+ *
+ * const mixed = Result.all([result1, Result.error("something went wrong")]);
+ * if (!mixed.ok)
+ * {
+ *   console.log(mixed.error); // output: "something went wrong"
+ * }
+ * ```
+ */
+export function all<T extends readonly Result<unknown>[] | []>(results: T): Result<OkTypes<T>, ErrorType<T[number]>>;
+export function all<T extends Readonly<Record<PropertyKey, Result<unknown>>>>(results: T): Result<OkTypes<T>, ErrorType<T[keyof T]>>;
+export function all(results: readonly Result<unknown>[] | Readonly<Record<PropertyKey, Result<unknown>>>): Result<unknown> {
+	if (Array.isArray(results)) {
+		return collect(results as readonly Result<unknown>[]);
+	}
+
+	const values: Record<PropertyKey, unknown> = {};
+	for (const key of Reflect.ownKeys(results)) {
+		const result = (results as Readonly<Record<PropertyKey, Result<unknown>>>)[key];
+		if (!result.ok) {
+			return result;
+		}
+
+		values[key] = result.value;
+	}
+
+	return new OkResult(values);
+}
+
+/**
+ * Collects the values of an iterable of {@link Result} into an array.
+ *
+ * The iterable is consumed lazily: iteration stops at the first {@link Result.Error},
+ * which is returned, and the remaining elements are never requested.
+ *
+ * @function collect
+ * @template T The type of the success values.
+ * @template E The type of the error values.
+ * @param {Iterable<Result<T, E>>} results The iterable of {@link Result}.
+ * @returns {Result<T[], E>} A {@link Result.Ok} with all values, or the first {@link Result.Error}.
+ *
+ * @example
+ * ```typescript
+ * function* parseAll(inputs: string[]): Generator<Result<number, string>>
+ * {
+ *   for (const input of inputs)
+ *   {
+ *     const value = Number(input);
+ *
+ *     yield Number.isNaN(value)
+ *       ? Result.error(`invalid number: ${input}`)
+ *       : Result.ok(value);
+ *   }
+ * }
+ *
+ * const numbers = Result.collect(parseAll(["1", "2", "3"]));
+ * if (numbers.ok)
+ * {
+ *   console.log(numbers.value); // output: [1, 2, 3]
+ * }
+ *
+ * // "3" is never parsed
+ * const invalid = Result.collect(parseAll(["1", "two", "3"]));
+ * if (!invalid.ok)
+ * {
+ *   console.log(invalid.error); // output: "invalid number: two"
+ * }
+ * ```
+ */
+export function collect<T, E>(results: Iterable<Result<T, E>>): Result<T[], E> {
+	const values: T[] = [];
+	for (const result of results) {
+		if (!result.ok) {
+			return result;
+		}
+
+		values.push(result.value);
+	}
+
+	return new OkResult(values);
+}
+
+/**
+ * Combines a tuple, array or record of {@link Result} into a single {@link Result}, accumulating all errors.
+ *
+ * If all results are {@link Result.Ok}, returns a {@link Result.Ok} containing their values,
+ * in the same shape as the given tuple, array or record.
+ * Otherwise, returns a {@link Result.Error} containing the errors of every {@link Result.Error}, in order,
+ * either as an array or, with the `aggregate` option, as the `errors` of an `AggregateError`.
+ *
+ * @function validate
+ * @template T The tuple, array or record of {@link Result}.
+ * @param {T} results The tuple, array or record of {@link Result}.
+ * @param {ValidateOptions} [options] Whether to aggregate the errors into an `AggregateError`.
+ * @returns {Result<OkTypes<T>, ErrorType<T[keyof T]>[] | Aggregated<ErrorType<T[keyof T]>>>} A {@link Result.Ok} with all values,
+ * or a {@link Result.Error} with all errors.
+ *
+ * @example
+ * ```typescript
+ * function required(field: string, value: string): Result<string, string>
+ * {
+ *   return value === ""
+ *     ? Result.error(`${field} is required`)
+ *     : Result.ok(value);
+ * }
+ *
+ * const form = Result.validate({
+ *   name: required("name", ""),
+ *   email: required("email", "")
+ * });
+ * if (!form.ok)
+ * {
+ *   console.log(form.error); // output: ["name is required", "email is required"]
+ * }
+ *
+ * const config = Result.validate([port, host], { aggregate: true }); // Result<[number, string], Result.Aggregated<string>>
+ * const either = Result.validate([port, host], { aggregate: verbose }); // Result<[number, string], string[] | Result.Aggregated<string>>
+ * ```
+ */
+export function validate<T extends readonly Result<unknown>[] | []>(results: T, options: ValidateOptions & { readonly aggregate: true }): Result<OkTypes<T>, Aggregated<ErrorType<T[number]>>>;
+export function validate<T extends readonly Result<unknown>[] | []>(results: T, options?: ValidateOptions & { readonly aggregate?: false }): Result<OkTypes<T>, ErrorType<T[number]>[]>;
+export function validate<T extends readonly Result<unknown>[] | []>(results: T, options: ValidateOptions): Result<OkTypes<T>, ErrorType<T[number]>[] | Aggregated<ErrorType<T[number]>>>;
+export function validate<T extends Readonly<Record<PropertyKey, Result<unknown>>>>(results: T, options: ValidateOptions & { readonly aggregate: true }): Result<OkTypes<T>, Aggregated<ErrorType<T[keyof T]>>>;
+export function validate<T extends Readonly<Record<PropertyKey, Result<unknown>>>>(results: T, options?: ValidateOptions & { readonly aggregate?: false }): Result<OkTypes<T>, ErrorType<T[keyof T]>[]>;
+export function validate<T extends Readonly<Record<PropertyKey, Result<unknown>>>>(results: T, options: ValidateOptions): Result<OkTypes<T>, ErrorType<T[keyof T]>[] | Aggregated<ErrorType<T[keyof T]>>>;
+export function validate(results: readonly Result<unknown>[] | Readonly<Record<PropertyKey, Result<unknown>>>, options?: ValidateOptions): Result<unknown> {
+	const errors: unknown[] = [];
+	const failure = (): ErrorResult => new ErrorResult(options?.aggregate
+		? aggregate(errors, options.message ?? "validation failed")
+		: errors);
+
+	if (Array.isArray(results)) {
+		const values: unknown[] = [];
+		for (const result of results as readonly Result<unknown>[]) {
+			if (result.ok) {
+				values.push(result.value);
+			} else {
+				errors.push(result.error);
+			}
+		}
+
+		return errors.length === 0
+			? new OkResult(values)
+			: failure();
+	}
+
+	const values: Record<PropertyKey, unknown> = {};
+	for (const key of Reflect.ownKeys(results)) {
+		const result = (results as Readonly<Record<PropertyKey, Result<unknown>>>)[key];
+		if (result.ok) {
+			values[key] = result.value;
+		} else {
+			errors.push(result.error);
+		}
+	}
+
+	return errors.length === 0
+		? new OkResult(values)
+		: failure();
+}
+
+/**
+ * Splits an iterable of {@link Result} into the values of every {@link Result.Ok}
+ * and the errors of every {@link Result.Error}, preserving their relative order.
+ *
+ * @function partition
+ * @template R The type of each {@link Result} in the iterable.
+ * @param {Iterable<R>} results The iterable of {@link Result}.
+ * @returns {[OkType<R>[], ErrorType<R>[]]} A tuple with the success values and the error values.
+ *
+ * @example
+ * ```typescript
+ * const results = [Result.ok(1), Result.error("two"), Result.ok(3)];
+ *
+ * const [values, errors] = Result.partition(results);
+ * console.log(values); // output: [1, 3]
+ * console.log(errors); // output: ["two"]
+ * ```
+ */
+export function partition<R extends Result<unknown>>(results: Iterable<R>): [OkType<R>[], ErrorType<R>[]] {
+	const values: OkType<R>[] = [];
+	const errors: ErrorType<R>[] = [];
+	for (const result of results) {
+		if (result.ok) {
+			values.push(result.value as OkType<R>);
+		} else {
+			errors.push(result.error as ErrorType<R>);
+		}
+	}
+
+	return [values, errors];
+}
+
 /**
  * Flattens a nested {@link Result}, converting it from {@link Result<Result<T, F>, E>} to {@link Result<T, E | F>}.
  *
@@ -347,3 +728,512 @@ export function flatten<T, E, F>(result: Result<Result<T, F>, E>): Result<T, E |
 
 	return result;
 }
+
+/**
+ * Compares two {@link Result} for sorting: every {@link Result.Ok} is ordered before every {@link Result.Error},
+ * and results of the same variant are ordered by their values (or errors).
+ *
+ * @function compare
+ * @template T The type of the success values.
+ * @template E The type of the error values.
+ * @param {Result<T, E>} a The first result.
+ * @param {Result<T, E>} b The second result.
+ * @param {(a: T, b: T) => number} [cmpOk] The function comparing success values. Defaults to comparing them with `<` and `>`.
+ * @param {(a: E, b: E) => number} [cmpErr] The function comparing error values. Defaults to comparing them with `<` and `>`.
+ * @returns {number} A negative number if `a` is ordered first, a positive number if `b` is, and zero otherwise.
+ *
+ * @example
+ * ```typescript
+ * const results = [Result.error("b"), Result.ok(2), Result.error("a"), Result.ok(1)];
+ *
+ * results.sort((a, b) => Result.compare(a, b));
+ * // [Result.ok(1), Result.ok(2), Result.error("a"), Result.error("b")]
+ * ```
+ */
+export function compare<T, E>(a: Result<T, E>, b: Result<T, E>, cmpOk: (a: T, b: T) => number = naturalOrder, cmpErr: (a: E, b: E) => number = naturalOrder): number {
+	if (a.ok) {
+		return b.ok
+			? cmpOk(a.value, b.value)
+			: -1;
+	}
+
+	return b.ok
+		? 1
+		: cmpErr(a.error, b.error);
+}
+
+function naturalOrder(a: unknown, b: unknown): number {
+	return (a as number) < (b as number)
+		? -1
+		: (a as number) > (b as number)
+			? 1
+			: 0;
+}
+
+/**
+ * Computes a key for a {@link Result}, suitable for using results as `Map` keys or for caching,
+ * such that results that are {@link Result.Ok.equals equal} (with the default structural equality) share the same key.
+ *
+ * Objects compared by identity (such as class instances other than results and options) contribute a unique identifier,
+ * so that distinct instances never share a key. Symbols are the exception: symbols from `Symbol.for` are keyed by
+ * their registry key, but other symbols only by their description, so that `Symbol("id")` and another `Symbol("id")`
+ * share a key even though they are not equal.
+ *
+ * @function hash
+ * @param {Result<unknown, unknown>} result The result to compute the key of.
+ * @returns {string} The key of the result.
+ *
+ * @example
+ * ```typescript
+ * const cache = new Map<string, Response>();
+ *
+ * cache.set(Result.hash(Result.ok({ page: 1 })), response);
+ * cache.get(Result.hash(Result.ok({ page: 1 }))); // response
+ * ```
+ */
+export function hash(result: Result<unknown>): string {
+	return canonicalize(result, new Set());
+}
+
+/**
+ * Runs a generator function in "do-notation", where each {@link Result} delegated to with `yield* result.bind()`
+ * evaluates to its success value, or short-circuits the generator with its error.
+ *
+ * If the generator returns, its return value is wrapped in a {@link Result.Ok}.
+ * If a {@link Result.Error} is delegated to, the generator is closed (running any `finally` blocks)
+ * and that {@link Result.Error} is returned.
+ *
+ * Delegating needs `.bind()` rather than a bare `yield* result`, since iterating a result already yields
+ * the items of its success value (and nothing for an error), which spreading and `for...of` rely on.
+ *
+ * @function gen
+ * @template Y The type of the {@link Result.Error} yielded by the generator.
+ * @template T The type of the value returned by the generator.
+ * @param {() => Generator<Y, T, unknown>} fn The generator function to run.
+ * @returns {Result<T, ErrorType<Y>>} A {@link Result.Ok} with the returned value, or the first {@link Result.Error} delegated to.
+ *
+ * @example
+ * ```typescript
+ * function parse(input: string): Result<number, "NaN"> { ... }
+ * function check(value: number): Result<number, "negative"> { ... }
+ *
+ * const result = Result.gen(function *() {
+ *   const a = yield* parse("42").bind();
+ *   const b = yield* check(a).bind();
+ *
+ *   return a + b;
+ * }); // Result<number, "NaN" | "negative">
+ * ```
+ */
+export function gen<Y extends Result.Error, T>(fn: () => Generator<Y, T, unknown>): Result<T, ErrorType<Y>> {
+	const iterator = fn();
+
+	const next = iterator.next();
+	if (next.done) {
+		return new OkResult(next.value);
+	}
+
+	iterator.return(undefined as never);
+
+	return next.value as Result.Error<ErrorType<Y>>;
+}
+
+/**
+ * Renders an error and its whole chain of causes, following both the `cause` of each error
+ * (as set by {@link ContextError} or natively by `new Error(message, { cause })`)
+ * and the `errors` of each `AggregateError`.
+ *
+ * By default, renders a multi-line string, with each cause indented under the error it caused.
+ * With the `"json"` format, renders a structured {@link ErrorReport} instead, suitable for structured logs.
+ *
+ * @function report
+ * @param {unknown} err The error to render.
+ * @param {"text" | "json"} [format] The format to render the error in. Defaults to `"text"`.
+ * @returns {string | ErrorReport} The rendered error.
+ *
+ * @example
+ * ```typescript
+ * const result = findUser("42").context("loading user 42").context("handling request");
+ *
+ * if (!result.ok)
+ * {
+ *   console.error(Result.report(result.error));
+ *   // ContextError: handling request
+ *   //   caused by: ContextError: loading user 42
+ *   //     caused by: NotFound: user 42 not found
+ *
+ *   logger.error(Result.report(result.error, "json"));
+ *   // { name: "ContextError", tag: "ContextError", message: "handling request", cause: { ... } }
+ * }
+ * ```
+ */
+export function report(err: unknown, format?: "text"): string;
+export function report(err: unknown, format: "json"): ErrorReport;
+export function report(err: unknown, format: "text" | "json" = "text"): string | ErrorReport {
+	const errorReport = reportError(err, new Set());
+
+	return format === "json"
+		? errorReport
+		: renderReport(errorReport, "", "").join("\n");
+}
+
+function reportError(err: unknown, seen: Set<unknown>): ErrorReport {
+	if (typeof err !== "object" || err === null) {
+		return { message: String(err) };
+	}
+
+	if (seen.has(err)) {
+		return { message: "[Circular]" };
+	}
+
+	seen.add(err);
+
+	const { name, message, stack, _tag: tag, cause, errors } = err as Partial<Record<"name" | "message" | "stack" | "_tag" | "cause" | "errors", unknown>>;
+
+	const errorReport: ErrorReport = {
+		...typeof name === "string" && { name },
+		...typeof tag === "string" && { tag },
+		message: typeof message === "string"
+			? message
+			: stringify(err),
+		...typeof stack === "string" && { stack },
+		..."cause" in err && cause !== undefined && { cause: reportError(cause, seen) },
+		...Array.isArray(errors) && { errors: errors.map((error: unknown) => reportError(error, seen)) }
+	};
+
+	seen.delete(err);
+
+	return errorReport;
+}
+
+function renderReport(errorReport: ErrorReport, indent: string, prefix: string): string[] {
+	const head = errorReport.name === undefined
+		? errorReport.message
+		: errorReport.name + ": " + errorReport.message;
+
+	const lines = [ indent + prefix + head ];
+
+	errorReport.errors?.forEach((error, index) =>
+		lines.push(...renderReport(error, indent + "  ", "[" + String(index) + "] ")));
+
+	if (errorReport.cause) {
+		lines.push(...renderReport(errorReport.cause, indent + "  ", "caused by: "));
+	}
+
+	return lines;
+}
+
+function stringify(value: object): string {
+	try {
+		return JSON.stringify(value);
+	} catch {
+		return Object.prototype.toString.call(value);
+	}
+}
+
+/**
+ * Revives a {@link Result} from its JSON shape, as produced by {@link Result.Ok.toJSON}
+ * (and e.g. passed through `structuredClone`, `postMessage` or `JSON.parse`).
+ * Results and errors nested within the value of the result are revived as well.
+ *
+ * Errors are reconstructed through the codec matching their name, if any,
+ * and as plain {@link Error} instances with their name, message, stack, cause and fields restored otherwise.
+ *
+ * @function revive
+ * @param {unknown} json The JSON shape of the result.
+ * @param {ReviveOptions} [options] The codecs for reconstructing errors.
+ * @returns {Result<Result<unknown>, DecodeError>} A {@link Result.Ok} with the revived result,
+ * or a {@link Result.Error} with a {@link DecodeError} if the value is not the JSON shape of a result.
+ *
+ * @example
+ * ```typescript
+ * worker.onmessage = event =>
+ * {
+ *   const result = Result.revive(event.data, {
+ *     codecs: [{ name: "NotFound", decode: json => new NotFound(json.fields.id as string) }]
+ *   }).flatten(); // Result<unknown, unknown>
+ * };
+ * ```
+ */
+export function revive(json: unknown, options: ReviveOptions = {}): Result<Result<unknown>, DecodeError> {
+	if (!isResultJSON(json)) {
+		return new ErrorResult(new DecodeError("value is not the JSON shape of a result"));
+	}
+
+	try {
+		return new OkResult(decodeResult(json, options.codecs ?? []));
+	} catch (err) {
+		if (err instanceof DecodeError) {
+			return new ErrorResult(err);
+		}
+
+		throw err;
+	}
+}
+
+/**
+ * Revives the {@link Result} encoded by a JSON string, as produced by `JSON.stringify`, or by an already parsed value,
+ * such as a message received from a worker. Strings are parsed first, and any other value is revived as is.
+ *
+ * @function fromJSON
+ * @param {unknown} json The JSON string to parse, or the parsed value.
+ * @param {ReviveOptions} [options] The codecs for reconstructing errors.
+ * @returns {Result<Result<unknown>, DecodeError>} A {@link Result.Ok} with the revived result,
+ * or a {@link Result.Error} with a {@link DecodeError} if the string is not valid JSON or the value does not encode a result.
+ * @see {@link revive}
+ *
+ * @example
+ * ```typescript
+ * const text = JSON.stringify(Result.error(new NotFound("42")));
+ *
+ * const result = Result.fromJSON(text).flatten();
+ *
+ * if (!result.ok)
+ * {
+ *   console.log(result.error); // output: NotFound: user 42 not found
+ * }
+ * ```
+ */
+export function fromJSON(json: unknown, options?: ReviveOptions): Result<Result<unknown>, DecodeError> {
+	if (typeof json !== "string") {
+		return revive(json, options);
+	}
+
+	let parsed: unknown;
+
+	try {
+		parsed = JSON.parse(json);
+	} catch (err) {
+		return new ErrorResult(new DecodeError("invalid JSON", { cause: err }));
+	}
+
+	return revive(parsed, options);
+}
+
+/**
+ * Validates an unknown value against a schema implementing the {@link https://standardschema.dev Standard Schema} interface,
+ * without depending on any specific validation library.
+ *
+ * The schema must validate synchronously; use {@link Result.Promise.parse} for schemas with asynchronous validators.
+ *
+ * @function parse
+ * @template S The type of the schema.
+ * @param {S} schema The schema to validate the value against.
+ * @param {unknown} input The value to validate.
+ * @returns {Result<SchemaOutput<S>, SchemaIssues>} A {@link Result.Ok} with the validated value,
+ * or a {@link Result.Error} with the issues found, each with the path of keys leading to the invalid value.
+ * @throws {TypeError} If the schema validates asynchronously.
+ *
+ * @example
+ * ```typescript
+ * const User = z.object({ name: z.string(), age: z.number() });
+ *
+ * const user = Result.parse(User, JSON.parse(body)); // Result<{ name: string; age: number }, SchemaIssues>
+ *
+ * if (!user.ok)
+ * {
+ *   console.log(user.error); // output: [{ message: "Expected number, received string", path: ["age"] }]
+ * }
+ * ```
+ */
+export function parse<S extends StandardSchema>(schema: S, input: unknown): Result<SchemaOutput<S>, SchemaIssues> {
+	const result = schema["~standard"].validate(input);
+
+	if (isThenable(result)) {
+		throw new TypeError("schema validation must be synchronous, use `Result.Promise.parse` instead");
+	}
+
+	return result.issues
+		? new ErrorResult(normalizeIssues(result.issues))
+		: new OkResult(result.value as SchemaOutput<S>);
+}
+
+/**
+ * Creates a {@link Result} from a value that may be `null` or `undefined`.
+ * If the value is neither, it is wrapped in a {@link Result.Ok}.
+ * Otherwise, the given error value is wrapped in a {@link Result.Error}.
+ *
+ * @function fromNullable
+ * @template T The type of the value.
+ * @template E The type of the error value.
+ * @param {T | null | undefined} value The value to wrap.
+ * @param {E} err The error value to use if the value is `null` or `undefined`.
+ * @returns {Result<NonNullable<T>, E>} A {@link Result.Ok} with the value, or a {@link Result.Error} with the given error value.
+ *
+ * @example
+ * ```typescript
+ * const users = new Map([["42", "Alice"]]);
+ *
+ * const found = Result.fromNullable(users.get("42"), "not found");
+ * console.log(found.ok); // output: true
+ *
+ * const missing = Result.fromNullable(users.get("43"), "not found");
+ * if (!missing.ok)
+ * {
+ *   console.log(missing.error); // output: "not found"
+ * }
+ * ```
+ */
+export function fromNullable<T, E>(value: T, err: E): Result<NonNullable<T>, E> {
+	return value === null || value === undefined
+		? new ErrorResult(err)
+		: new OkResult(value);
+}
+
+/**
+ * Creates variant of an {@link Option<T>} that contains a value.
+ *
+ * @function some
+ * @template T The type of the value to contain.
+ * @param {T} value The value to contain.
+ * @returns {Option.Some<T>} An {@link Option.Some<T>} containing the value.
+ *
+ * @example
+ * ```typescript
+ * const option = Option.some(42);
+ *
+ * if (option.some)
+ * {
+ *   console.log("Value:", option.value); // output: "Value: 42"
+ * }
+ * ```
+ */
+export function some<T>(value: T): Option.Some<T> {
+	return new SomeOption(value);
+}
+
+/**
+ * Creates variant of an {@link Option<T>} that contains no value.
+ *
+ * @function none
+ * @returns {Option.None} An {@link Option.None}.
+ *
+ * @example
+ * ```typescript
+ * const option = Option.none();
+ *
+ * console.log(option.some); // output: false
+ * ```
+ */
+export function none(): Option.None {
+	return new NoneOption();
+}
+
+/**
+ * Creates an {@link Option} from a value that may be `null` or `undefined`.
+ * If the value is neither, it is wrapped in an {@link Option.Some}.
+ * Otherwise, an {@link Option.None} is returned.
+ *
+ * @function option
+ * @template T The type of the value.
+ * @param {T | null | undefined} value The value to wrap.
+ * @returns {Option<NonNullable<T>>} An {@link Option.Some} with the value, or an {@link Option.None}.
+ *
+ * @example
+ * ```typescript
+ * const users = new Map([["42", "Alice"]]);
+ *
+ * console.log(Option.from(users.get("42")).some); // output: true
+ * console.log(Option.from(users.get("43")).some); // output: false
+ * ```
+ */
+export function option<T>(value: T): Option<NonNullable<T>> {
+	return value === null || value === undefined
+		? new NoneOption()
+		: new SomeOption(value);
+}
+
+/**
+ * Type guard that checks if a value is an {@link Option}.
+ *
+ * @function isOption
+ * @template T The type of the contained value.
+ * @param {unknown} option The value to check.
+ * @returns {boolean} `true` if the value is an {@link Option}, `false` otherwise.
+ *
+ * @example
+ * ```typescript
+ * console.log(Option.is(Option.some(42))); // output: true
+ * console.log(Option.is(Option.none())); // output: true
+ * console.log(Option.is({ some: true, value: 42 })); // output: false
+ * ```
+ */
+export function isOption<T = unknown>(option: unknown): option is Option<T> {
+	return option instanceof SomeOption || option instanceof NoneOption;
+}
+
+/**
+ * Type guard that checks if an option is an {@link Option.Some}.
+ *
+ * @function isSome
+ * @template T The type of the contained value.
+ * @param {Option<T>} option The option to check.
+ * @returns {boolean} `true` if the option is an {@link Option.Some}, `false` otherwise.
+ *
+ * @example
+ * ```typescript
+ * const option = Option.some(42);
+ *
+ * if (Option.isSome(option))
+ * {
+ *   console.log("Value:", option.value); // output: "Value: 42"
+ * }
+ * ```
+ */
+export function isSome<T>(option: Option<T>): option is Option.Some<T> {
+	return option.some;
+}
+
+/**
+ * Type guard that checks if an option is an {@link Option.None}.
+ *
+ * @function isNone
+ * @param {Option<unknown>} option The option to check.
+ * @returns {boolean} `true` if the option is an {@link Option.None}, `false` otherwise.
+ *
+ * @example
+ * ```typescript
+ * console.log(Option.isNone(Option.none())); // output: true
+ * console.log(Option.isNone(Option.some(42))); // output: false
+ * ```
+ */
+export function isNone(option: Option<unknown>): option is Option.None {
+	return !option.some;
+}
+
+/**
+ * Transposes a {@link Result} of an {@link Option} into an {@link Option} of a {@link Result}, or vice-versa.
+ *
+ * - `Result.Ok(Option.None)` becomes `Option.None`.
+ * - `Result.Ok(Option.Some(value))` becomes `Option.Some(Result.Ok(value))`.
+ * - `Result.Error(error)` becomes `Option.Some(Result.Error(error))`.
+ *
+ * The conversion in the other direction is its exact inverse.
+ *
+ * @function transpose
+ * @template T The type of the contained success value.
+ * @template E The type of the error value.
+ * @param {Result<Option<T>, E> | Option<Result<T, E>>} value The value to transpose.
+ * @returns {Option<Result<T, E>> | Result<Option<T>, E>} The transposed value.
+ *
+ * @example
+ * ```typescript
+ * const result: Result<Option<number>, string> = Result.ok(Option.some(42));
+ *
+ * const option = Result.transpose(result); // Option.some(Result.ok(42))
+ * const back = Option.transpose(option); // Result.ok(Option.some(42))
+ * ```
+ */
+export function transpose<T, E>(value: Result<Option<T>, E>): Option<Result<T, E>>;
+export function transpose<T, E>(value: Option<Result<T, E>>): Result<Option<T>, E>;
+export function transpose<T, E>(value: Result<Option<T>, E> | Option<Result<T, E>>): Option<Result<T, E>> | Result<Option<T>, E> {
+	if ("ok" in value) {
+		return value.ok
+			? value.transpose()
+			: new SomeOption(value);
+	}
+
+	return value.some
+		? value.transpose()
+		: new OkResult(value);
+}
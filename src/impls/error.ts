@@ -1,8 +1,12 @@
-import Result from "index";
+import Result, { ContextError } from "..";
 import { IResult, IResultAsync } from "../internal/contracts";
-import { ResultError } from "../internal/types";
+import { asyncDisposeSymbol, deepEqual, disposeSymbol, display, findTagHandler, inspectLabelled, inspectSymbol, isTagged, matchError } from "../internal/helpers";
+import { encodeValue, JSON_VERSION } from "../internal/json";
+import { ExcludeTag, Inspect, InspectOptions, Matcher, ResultError, ResultErrorJSON, TagHandlers, TagOf } from "../internal/types";
+import { NoneOption } from "./none";
 import { OkResult } from "./ok";
 import { ResultPromise } from "./promise";
+import { SomeOption } from "./some";
 
 /**
  * A variant of a {@link Result} that contains an error value, accessible through the {@link error} field.
@@ -14,6 +18,8 @@ import { ResultPromise } from "./promise";
 export class ErrorResult<E=unknown> implements ResultError<E>, IResult<unknown, E>, IResultAsync<unknown, E> {
 	public readonly ok: false = false;
 
+	public readonly [Symbol.toStringTag]: string = "Result.Error";
+
 	public readonly error: E;
 
 	public constructor(error: E) {
@@ -26,6 +32,22 @@ export class ErrorResult<E=unknown> implements ResultError<E>, IResult<unknown,
 		};
 	}
 
+	public toString(): string {
+		return "Error(" + display(this.error) + ")";
+	}
+
+	public [inspectSymbol](depth: number, options: InspectOptions, inspect?: Inspect): string {
+		return inspectLabelled("Error", this.error, depth, options, inspect);
+	}
+
+	public [disposeSymbol](): void {
+		return; // nothing to dispose in an error result
+	}
+
+	public [asyncDisposeSymbol](): Promise<void> {
+		return Promise.resolve();
+	}
+
 	public isOkAnd(): this is OkResult<never> {
 		return false;
 	}
@@ -152,7 +174,63 @@ export class ErrorResult<E=unknown> implements ResultError<E>, IResult<unknown,
 		return new Result.Error(this.error);
 	}
 
+	public equals(other: Result<unknown>, eq: (a: E, b: E) => boolean = deepEqual): boolean {
+		return !other.ok && eq(this.error, other.error as E);
+	}
+
 	public flatten(): this {
 		return this;
 	}
+
+	public toOption(): NoneOption {
+		return new NoneOption();
+	}
+
+	public err(): SomeOption<E> {
+		return new SomeOption(this.error);
+	}
+
+	public transpose(): SomeOption<this> {
+		return new SomeOption(this);
+	}
+
+	public *bind(): Generator<this, never, unknown> {
+		yield this;
+
+		throw new Error("generator was resumed after short-circuiting on an error result");
+	}
+
+	public match<U, V = U>(matcher: Pick<Matcher<never, E, U, V>, "error">): V {
+		return matchError(matcher.error, this.error);
+	}
+
+	public catchTag<K extends TagOf<E>, R extends Result<unknown>>(tag: K, fn: (error: Extract<E, { readonly _tag: K }>) => R): ErrorResult<ExcludeTag<E, K>> | R {
+		return isTagged(this.error, tag)
+			? fn(this.error as Extract<E, { readonly _tag: K }>)
+			: this as ErrorResult<ExcludeTag<E, K>>;
+	}
+
+	public catchTags<H extends TagHandlers<E, Result<unknown>>>(handlers: H): ErrorResult<ExcludeTag<E, keyof H>> | ReturnType<NonNullable<H[keyof H]>> {
+		const handler = findTagHandler(handlers, this.error);
+
+		return handler
+			? handler(this.error) as ReturnType<NonNullable<H[keyof H]>>
+			: this as ErrorResult<ExcludeTag<E, keyof H>>;
+	}
+
+	public context(context: string): ErrorResult<ContextError<E>> {
+		return new ErrorResult(new ContextError(context, this.error));
+	}
+
+	public withContext(fn: (error: E) => string): ErrorResult<ContextError<E>> {
+		return new ErrorResult(new ContextError(fn(this.error), this.error));
+	}
+
+	public toJSON(): ResultErrorJSON<unknown> {
+		return {
+			$result: JSON_VERSION,
+			ok: false,
+			error: encodeValue(this.error)
+		};
+	}
 }
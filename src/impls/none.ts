@@ -0,0 +1,115 @@
+import { Option } from "..";
+import { IOption } from "../internal/contracts";
+import { OptionNone } from "../internal/types";
+import { ErrorResult } from "./error";
+import { OkResult } from "./ok";
+
+/**
+ * A variant of an {@link Option} that contains no value.
+ *
+ * Its {@link some} field is always false.
+ *
+ * @class {@link Option.None}
+ */
+export class NoneOption implements OptionNone, IOption<unknown> {
+	public readonly some: false = false;
+
+	public [Symbol.iterator](): Iterator<never, unknown, undefined> {
+		return {
+			next: () => ({ done: true, value: undefined })
+		};
+	}
+
+	public isSomeAnd(): this is Option.Some<never> {
+		return false;
+	}
+
+	public isNoneOr(): boolean {
+		return true;
+	}
+
+	public map(): this {
+		return this;
+	}
+
+	public mapOr<T>(defaultValue: T): T {
+		return defaultValue;
+	}
+
+	public mapOrElse<T>(defaultValue: () => T): T {
+		return defaultValue();
+	}
+
+	public inspect(): this {
+		return this;
+	}
+
+	// eslint-disable-next-line require-yield
+	public *values(): Generator<never, unknown, unknown> {
+		return; // nothing to iterate in a none option
+	}
+
+	public forEach(): void {
+		return;
+	}
+
+	public expect(msg: string): never {
+		throw new Error(msg);
+	}
+
+	public unwrap(): never {
+		throw new Error("called `unwrap` on a `None` option");
+	}
+
+	public unwrapOr<T>(defaultValue: T): T {
+		return defaultValue;
+	}
+
+	public unwrapOrElse<T>(defaultValue: () => T): T {
+		return defaultValue();
+	}
+
+	public okOr<E>(error: E): ErrorResult<E> {
+		return new ErrorResult(error);
+	}
+
+	public okOrElse<E>(fn: () => E): ErrorResult<E> {
+		return new ErrorResult(fn());
+	}
+
+	public filter(): this {
+		return this;
+	}
+
+	public and(): this {
+		return this;
+	}
+
+	public andThen(): this {
+		return this;
+	}
+
+	public or<T, O extends Option<T>>(option: O): O {
+		return option;
+	}
+
+	public orElse<T, O extends Option<T>>(fn: () => O): O {
+		return fn();
+	}
+
+	public xor<T, O extends Option<T>>(option: O): O {
+		return option;
+	}
+
+	public clone(): NoneOption {
+		return new NoneOption();
+	}
+
+	public flatten(): this {
+		return this;
+	}
+
+	public transpose(): OkResult<this> {
+		return new OkResult(this);
+	}
+}
@@ -1,9 +1,12 @@
-import Result from "index";
+import Result, { Option } from "..";
 import { IResult, IResultAsync } from "../internal/contracts";
-import { isIterable } from "../internal/helpers";
-import { ResultValue } from "../internal/types";
+import { asyncDisposeSymbol, deepEqual, disposeSymbol, display, inspectLabelled, inspectSymbol, isAsyncDisposable, isDisposable, isIterable } from "../internal/helpers";
+import { encodeValue, JSON_VERSION } from "../internal/json";
+import { Inspect, InspectOptions, Matcher, ResultValue, ResultValueJSON } from "../internal/types";
 import { ErrorResult } from "./error";
+import { NoneOption } from "./none";
 import { ResultPromise } from "./promise";
+import { SomeOption } from "./some";
 
 /**
  * A variant of a {@link Result} that contains a success value, accessible through the {@link value} field.
@@ -15,6 +18,8 @@ import { ResultPromise } from "./promise";
 export class OkResult<T=void> implements ResultValue<T>, IResult<T, unknown>, IResultAsync<T, unknown> {
 	public readonly ok: true = true;
 
+	public readonly [Symbol.toStringTag]: string = "Result.Ok";
+
 	public readonly value: T;
 
 	public constructor(value: T) {
@@ -44,6 +49,28 @@ export class OkResult<T=void> implements ResultValue<T>, IResult<T, unknown>, IR
 		} as Iterator<T extends Iterable<infer U> ? never : T, unknown, undefined>;
 	}
 
+	public toString(): string {
+		return "Ok(" + display(this.value) + ")";
+	}
+
+	public [inspectSymbol](depth: number, options: InspectOptions, inspect?: Inspect): string {
+		return inspectLabelled("Ok", this.value, depth, options, inspect);
+	}
+
+	public [disposeSymbol](): void {
+		if (isDisposable(this.value)) {
+			this.value[disposeSymbol]();
+		}
+	}
+
+	public async [asyncDisposeSymbol](): Promise<void> {
+		if (isAsyncDisposable(this.value)) {
+			await this.value[asyncDisposeSymbol]();
+		} else if (isDisposable(this.value)) {
+			this.value[disposeSymbol]();
+		}
+	}
+
 	public isOkAnd<U extends T>(fn: (value: T) => value is U): this is OkResult<U>
 	public isOkAnd(fn: (value: T) => boolean): this is OkResult<T>
 	public isOkAnd(fn: (value: T) => boolean): boolean {
@@ -186,9 +213,60 @@ export class OkResult<T=void> implements ResultValue<T>, IResult<T, unknown>, IR
 		return new OkResult(this.value);
 	}
 
+	public equals(other: Result<unknown>, eq: (a: T, b: T) => boolean = deepEqual): boolean {
+		return other.ok && eq(this.value, other.value as T);
+	}
+
 	public flatten(): T extends Result<unknown> ? T : this {
 		return Result.is(this.value)
 			? this.value as T extends Result<unknown> ? T : never
 			: this as T extends Result<unknown> ? never : this;
 	}
+
+	public toOption(): SomeOption<T> {
+		return new SomeOption(this.value);
+	}
+
+	public err(): NoneOption {
+		return new NoneOption();
+	}
+
+	public transpose<U>(this: OkResult<Option<U>>): Option<OkResult<U>> {
+		return this.value.some
+			? new SomeOption(new OkResult(this.value.value))
+			: new NoneOption();
+	}
+
+	// eslint-disable-next-line require-yield
+	public *bind(): Generator<never, T, unknown> {
+		return this.value;
+	}
+
+	public match<U, V = U>(matcher: Pick<Matcher<T, never, U, V>, "ok">): U {
+		return matcher.ok(this.value);
+	}
+
+	public catchTag(): this {
+		return this;
+	}
+
+	public catchTags(): this {
+		return this;
+	}
+
+	public context(): this {
+		return this;
+	}
+
+	public withContext(): this {
+		return this;
+	}
+
+	public toJSON(): ResultValueJSON<unknown> {
+		return {
+			$result: JSON_VERSION,
+			ok: true,
+			value: encodeValue(this.value)
+		};
+	}
 }
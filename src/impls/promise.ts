@@ -1,7 +1,25 @@
-import Result from "..";
-import { isThenable } from "../internal/helpers";
+import Result, { Option } from "..";
+import { AbortedError, ContextError, Defect, TimeoutError } from "../errors";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars -- ReleaseError type information is used in JSDocs
+import type { ReleaseError } from "../errors";
+import { IResultPromise } from "../internal/contracts";
+import { asyncDisposeSymbol, captureAsync, completeBracket, disposeSymbol, display, entriesOf, findTagHandler, inspectSymbol, isAsyncDisposable, isAsyncIterable, isIterable, isTagged, isThenable, matchError, normalizeIssues } from "../internal/helpers";
+import { AsyncDisposableResource, DisposableResource, EventEmitterLike, ExcludeTag, FromOptions, Inspect, InspectOptions, Matcher, NodeCallback, PromiseErrorType, PromiseOkType, ReleaseFailure, ResultError, ResultValue, SchemaIssues, SchemaOutput, StandardSchema, TagHandlers, TagOf } from "../internal/types";
 
-export class ResultPromise<T=void, E=unknown> extends Promise<Result<T, E>> {
+/**
+ * The native {@link Promise} constructor, typed without its static members.
+ *
+ * {@link ResultPromise} provides its own `all`, `allSettled`, `any` and `race` combinators,
+ * whose signatures cannot be compatible with the ones inherited from {@link PromiseConstructor}.
+ */
+const BasePromise: new<R>(
+	executor: (
+		resolve: (value: R | PromiseLike<R>) => void,
+		reject: (reason?: unknown) => void
+	) => void
+) => Promise<R> = Promise;
+
+export class ResultPromise<T=void, E=unknown> extends BasePromise<Result<T, E>> implements IResultPromise<T, E> {
 	public static ok(): Result.Promise<void, never>;
 	public static ok<T>(value: T): Result.Promise<T, never>;
 	public static ok<T>(value?: T): Result.Promise<T | void, never> {
@@ -12,29 +30,797 @@ export class ResultPromise<T=void, E=unknown> extends Promise<Result<T, E>> {
 		return new Result.Promise((_, reject) => reject(error));
 	}
 
-	public static from<F extends (...parameters: Parameters<F>) => PromiseLike<ReturnType<F>>>(fn: F, ...args: Parameters<F>): Result.Promise<Awaited<ReturnType<F>>>;
+	/**
+	 * Wraps a promise, or the promise returned by a function, in a {@link Result.Promise}.
+	 * A fulfilled promise resolves to a {@link Result.Ok}, and a rejected promise to a {@link Result.Error}.
+	 *
+	 * If the function throws synchronously instead of returning a promise, the thrown error is treated as a rejection.
+	 *
+	 * Any arguments after the function are always passed on to it, even an object with an abort `signal`,
+	 * so the abortable form `Result.Promise.from(fn, { signal })` is provided as {@link fromAbortable} instead.
+	 */
+	public static from<F extends (...parameters: Parameters<F>) => PromiseLike<unknown>>(fn: F, ...args: Parameters<F>): Result.Promise<Awaited<ReturnType<F>>>;
 	public static from<T>(promise: PromiseLike<T>): Result.Promise<T>;
-	public static from<T, F extends(...parameters: Parameters<F>) => PromiseLike<ReturnType<F>>>(functionOrPromise: F | PromiseLike<T>, ...args: Parameters<F>): Result.Promise<T | ReturnType<F>> {
-		const promise = functionOrPromise instanceof Function
-			? functionOrPromise(...args)
-			: functionOrPromise;
+	public static from<T>(functionOrPromise: ((...parameters: unknown[]) => PromiseLike<T>) | PromiseLike<T>, ...args: unknown[]): Result.Promise<T> {
+		return new Result.Promise((resolve, reject) => {
+			let promise: PromiseLike<T>;
+			try {
+				promise = functionOrPromise instanceof Function
+					? functionOrPromise(...args)
+					: functionOrPromise;
+			} catch (err: unknown) {
+				return reject(err);
+			}
 
-		return new Result.Promise((resolve, reject) =>
-			void promise.then(resolve, reject));
+			void promise.then(resolve, reject);
+		});
+	}
+
+	/**
+	 * Wraps a promise, or the promise returned by a function called with the given abort signal, in a {@link Result.Promise}
+	 * that resolves to a {@link Result.Error} with an {@link AbortedError} as soon as the signal is aborted, regardless of the wrapped promise.
+	 * Otherwise, a fulfilled promise resolves to a {@link Result.Ok}, and a rejected promise to a {@link Result.Error}.
+	 *
+	 * As a rejection reason is `unknown`, which already covers {@link AbortedError}, the error type only shows
+	 * {@link AbortedError} once rejections are mapped through `mapError`.
+	 *
+	 * If the function throws synchronously instead of returning a promise, the thrown error is treated as a rejection.
+	 * If the signal is already aborted, the function is not called at all.
+	 *
+	 * @example
+	 * ```typescript
+	 * const controller = new AbortController();
+	 *
+	 * const response = Result.Promise.fromAbortable(signal => fetch(url, { signal }), {
+	 *   signal: controller.signal,
+	 *   mapError: error => new FetchError("request failed", { cause: error })
+	 * }); // Result.Promise<Response, FetchError | AbortedError>
+	 *
+	 * controller.abort();
+	 *
+	 * const result = await response; // Result.Error<AbortedError>
+	 * ```
+	 */
+	public static fromAbortable<T, E>(functionOrPromise: ((signal: AbortSignal) => PromiseLike<T>) | PromiseLike<T>, options: Required<AbortOptions> & FromOptions<E>): Result.Promise<T, E | AbortedError>;
+	public static fromAbortable<T>(functionOrPromise: ((signal: AbortSignal) => PromiseLike<T>) | PromiseLike<T>, options: Required<AbortOptions>): Result.Promise<T>;
+	public static fromAbortable<T, E>(functionOrPromise: ((signal: AbortSignal) => PromiseLike<T>) | PromiseLike<T>, options: Required<AbortOptions> & Partial<FromOptions<E>>): Result.Promise<T, E | AbortedError> {
+		const mapError = options.mapError ?? ((error: unknown) => error as E);
+
+		return new Result.Promise<T, E | AbortedError>((resolve, reject, catcher, signal) => {
+			let promise: PromiseLike<T>;
+			try {
+				promise = functionOrPromise instanceof Function
+					? functionOrPromise(signal ?? options.signal)
+					: functionOrPromise;
+			} catch (err: unknown) {
+				return reject(mapError(err));
+			}
+
+			void promise.then(resolve, (reason: unknown) => reject(mapError(reason))).then(undefined, catcher);
+		}, { signal: options.signal });
+	}
+
+	/**
+	 * Wraps an asynchronous function into a function with the same parameters, that returns a {@link Result.Promise} instead.
+	 * Both a rejection of the returned promise and a synchronous throw resolve to a {@link Result.Error},
+	 * whose error value is mapped through `mapError`, if given.
+	 *
+	 * @example
+	 * ```typescript
+	 * const fetchUser = Result.Promise.wrap(
+	 *   async (id: string) => (await fetch(`/users/${id}`)).json() as Promise<User>,
+	 *   { mapError: error => new FetchError("failed to fetch user", { cause: error }) }
+	 * );
+	 *
+	 * const user = await fetchUser("42"); // Result<User, FetchError>
+	 * ```
+	 */
+	public static wrap<A extends unknown[], T, E = unknown>(fn: (...args: A) => PromiseLike<T>, options?: FromOptions<E>): (...args: A) => Result.Promise<T, E> {
+		const mapError = options?.mapError ?? ((error: unknown) => error as E);
+
+		return (...args) => new Result.Promise((resolve, reject, catcher) => {
+			let promise: PromiseLike<T>;
+			try {
+				promise = fn(...args);
+			} catch (err: unknown) {
+				return reject(mapError(err));
+			}
+
+			void promise.then(resolve, (reason: unknown) => reject(mapError(reason))).then(undefined, catcher);
+		});
+	}
+
+	/**
+	 * Creates a {@link Result.Promise} from a function taking a Node.js-style callback, such as a legacy Node.js API.
+	 * The promise resolves to a {@link Result.Error} if the callback is called with an error,
+	 * and to a {@link Result.Ok} with the value passed to the callback otherwise. Only the first call of the callback counts.
+	 *
+	 * If the function throws synchronously instead of calling the callback, the thrown error is not typed as `E`,
+	 * so the promise rejects with it, like any other {@link Result.Promise} whose executor throws.
+	 *
+	 * @example
+	 * ```typescript
+	 * const contents = Result.Promise.fromCallback<Buffer>(callback => fs.readFile("config.json", callback)); // Result.Promise<Buffer, Error>
+	 * ```
+	 */
+	public static fromCallback<T = void, E = Error>(fn: (callback: NodeCallback<T, E>) => void): Result.Promise<T, E> {
+		return new Result.Promise<T, E>((resolve, reject, catcher) => {
+			try {
+				fn((error, value) => error === null || error === undefined
+					? resolve(value as T)
+					: reject(error));
+			} catch (err: unknown) {
+				catcher(err);
+			}
+		});
+	}
+
+	/**
+	 * Creates a {@link Result.Promise} that waits for the next `event` of an `EventEmitter`,
+	 * resolving to a {@link Result.Ok} with the first argument of the event,
+	 * or to a {@link Result.Error} with the first argument of the `errorEvent` (`"error"` by default) if it comes first.
+	 * The listeners are removed as soon as the promise settles.
+	 *
+	 * When an abort `signal` is given, the promise resolves to a {@link Result.Error} with an {@link AbortedError}
+	 * as soon as the signal is aborted, and stops listening. The error type includes {@link AbortedError}
+	 * whenever the options may hold a signal.
+	 *
+	 * @example
+	 * ```typescript
+	 * const server = http.createServer(handler).listen(8080);
+	 *
+	 * const listening = await Result.Promise.once(server, "listening", { signal: AbortSignal.timeout(1000) }); // Result<unknown, Error | AbortedError>
+	 * ```
+	 */
+	public static once<T = unknown, E = Error>(emitter: EventEmitterLike, event: string | symbol, options?: OnceOptions & { readonly signal?: undefined }): Result.Promise<T, E>;
+	public static once<T = unknown, E = Error>(emitter: EventEmitterLike, event: string | symbol, options: OnceOptions): Result.Promise<T, E | AbortedError>;
+	public static once<T, E>(emitter: EventEmitterLike, event: string | symbol, options?: OnceOptions): Result.Promise<T, E | AbortedError> {
+		const errorEvent = options?.errorEvent ?? "error";
+
+		return new Result.Promise<T, E | AbortedError>((resolve, reject, _, signal) => {
+			const listeners = {
+				event: (value: unknown): void => {
+					stop();
+					resolve(value as T);
+				},
+				error: (error: unknown): void => {
+					stop();
+					reject(error as E);
+				}
+			};
+
+			function stop(): void {
+				emitter.off(event, listeners.event);
+				emitter.off(errorEvent, listeners.error);
+				signal?.removeEventListener("abort", stop);
+			}
+
+			emitter.on(event, listeners.event);
+			emitter.on(errorEvent, listeners.error);
+			signal?.addEventListener("abort", stop, { once: true });
+		}, options);
+	}
+
+	/**
+	 * Acquires a resource, uses it, and always releases it afterwards, even when using it resolves to a {@link Result.Error},
+	 * throws or rejects. If acquiring the resource fails, it is neither used nor released.
+	 * Each step may return a {@link Result} or a {@link Result.Promise}, and releasing may return any promise, which is awaited.
+	 *
+	 * The resource is released with the `release` function if given, or else through its `Symbol.asyncDispose`
+	 * (or `Symbol.dispose`) method. If releasing fails, by resolving to a {@link Result.Error} or by throwing,
+	 * the failure is combined with the failure to use the resource, if any, into a {@link ReleaseError}.
+	 *
+	 * Throwing takes precedence over resolving: the promise rejects if either step threw or rejected, even if the other one
+	 * resolved to a {@link Result.Error}, and resolves otherwise. Only the errors of resolved {@link Result.Error} appear in the type.
+	 *
+	 * @example
+	 * ```typescript
+	 * const rows = Result.Promise.bracket(
+	 *   () => pool.connect(), // Result.Promise<Connection, ConnectError>
+	 *   connection => connection.query(sql), // Result.Promise<Row[], QueryError>
+	 *   connection => connection.release() // Promise<void>
+	 * ); // Result.Promise<Row[], ConnectError | QueryError>
+	 * ```
+	 */
+	public static bracket<R extends AsyncDisposableResource | DisposableResource, E, T, F>(acquire: () => Result<R, E> | Result.Promise<R, E>, use: (resource: R) => Result<T, F> | Result.Promise<T, F>): Result.Promise<T, E | F>;
+	public static bracket<R, E, T, F, U>(acquire: () => Result<R, E> | Result.Promise<R, E>, use: (resource: R) => Result<T, F> | Result.Promise<T, F>, release: (resource: R) => U): Result.Promise<T, E | F | ReleaseFailure<F, Awaited<U>>>;
+	public static bracket<R, E, T, F>(
+		acquire: () => Result<R, E> | Result.Promise<R, E>,
+		use: (resource: R) => Result<T, F> | Result.Promise<T, F>,
+		release?: (resource: R) => unknown
+	): Result.Promise<T> {
+		const run = async(): Promise<Result<T>> => {
+			const acquired = await acquire();
+			if (!acquired.ok) {
+				return acquired;
+			}
+
+			const resource = acquired.value;
+
+			const used = await captureAsync<Result<T, F>>(() => use(resource));
+			const released = await captureAsync(() => release
+				? release(resource)
+				: isAsyncDisposable(resource)
+					? resource[asyncDisposeSymbol]()
+					: (resource as DisposableResource)[disposeSymbol]());
+
+			return completeBracket<T, F, unknown>(used, released);
+		};
+
+		return new Result.Promise((resolve, reject, catcher) =>
+			void run().then(result => result.ok
+				? resolve(result.value)
+				: reject(result.error), catcher));
+	}
+
+	/**
+	 * Runs a generator function in "do-notation", where each {@link Result} or {@link Result.Promise}
+	 * delegated to with `yield* result.bind()` evaluates to its success value, or short-circuits the generator with its error.
+	 *
+	 * If the generator returns, the promise resolves to a {@link Result.Ok} with the returned value.
+	 * If a {@link Result.Error} is delegated to, the generator is closed (running any `finally` blocks)
+	 * and the promise resolves to that error.
+	 * Anything thrown by the generator, or a rejection of a delegated {@link Result.Promise}, is propagated as a rejection.
+	 *
+	 * Delegating needs `.bind()` rather than a bare `yield* result`, since a {@link Result} is already iterable
+	 * over the items of its success value, and a {@link Result.Promise} is async iterable the same way.
+	 *
+	 * @example
+	 * ```typescript
+	 * function fetchUser(id: string): Result.Promise<User, "NotFound"> { ... }
+	 * function validate(user: User): Result<User, "Invalid"> { ... }
+	 *
+	 * const result = Result.Promise.gen(function *() {
+	 *   const user = yield* fetchUser("42").bind();
+	 *   const valid = yield* validate(user).bind();
+	 *
+	 *   return valid.name;
+	 * }); // Result.Promise<string, "NotFound" | "Invalid">
+	 * ```
+	 */
+	public static gen<Y extends Result.Error | Result.Promise<unknown>, T>(fn: () => Generator<Y, T, never>): Result.Promise<T, GeneratorErrorType<Y>> {
+		return new Result.Promise((resolve, reject, catcher) => {
+			const iterator = fn();
+
+			// runs the `finally` blocks of the generator, which may throw just like any step
+			const stop = (error: GeneratorErrorType<Y>): void => {
+				try {
+					iterator.return(undefined as never);
+				} catch (reason: unknown) {
+					return catcher(reason);
+				}
+
+				reject(error);
+			};
+
+			const step = (input?: unknown): void => {
+				let next: IteratorResult<Y, T>;
+				try {
+					next = iterator.next(input as never);
+				} catch (reason: unknown) {
+					return catcher(reason);
+				}
+
+				if (next.done) {
+					return resolve(next.value);
+				}
+
+				if (!(next.value instanceof Result.Promise)) {
+					return stop((next.value as Result.Error<GeneratorErrorType<Y>>).error);
+				}
+
+				void next.value.then(
+					result => result.ok
+						? step(result.value)
+						: stop(result.error as GeneratorErrorType<Y>),
+					catcher
+				);
+			};
+
+			step();
+		});
+	}
+
+	/**
+	 * Combines a tuple, array or record of {@link Result.Promise} (or {@link Result}) into a single {@link Result.Promise}.
+	 *
+	 * Resolves to a {@link Result.Ok} containing all values, in the same shape as the given tuple, array or record,
+	 * once every promise resolves to a {@link Result.Ok}.
+	 * Resolves to the first {@link Result.Error} as soon as any promise resolves to one, without waiting for the others.
+	 * Rejects as soon as any promise rejects.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await Result.Promise.all([fetchUser(id), fetchPrefs(id)]);
+	 * // Result<[User, Prefs], UserError | PrefsError>
+	 *
+	 * const record = await Result.Promise.all({ user: fetchUser(id), prefs: fetchPrefs(id) });
+	 * // Result<{ user: User; prefs: Prefs }, UserError | PrefsError>
+	 * ```
+	 */
+	public static all<P extends readonly AnyResult[] | []>(results: P): Result.Promise<PromiseOkTypes<P>, PromiseErrorType<P[number]>>;
+	public static all<P extends Readonly<Record<PropertyKey, AnyResult>>>(results: P): Result.Promise<PromiseOkTypes<P>, PromiseErrorType<P[keyof P]>>;
+	public static all(results: readonly AnyResult[] | Readonly<Record<PropertyKey, AnyResult>>): Result.Promise<unknown> {
+		const entries = entriesOf(results);
+		const values = createCollection(results);
+
+		return new Result.Promise((resolve, reject, catcher) => {
+			let remaining = entries.length;
+			if (remaining === 0) {
+				return resolve(values);
+			}
+
+			for (const [key, value] of entries) {
+				onSettled(value, result => {
+					if (!result.ok) {
+						return reject(result.error);
+					}
+
+					values[key] = result.value;
+
+					if (--remaining === 0) {
+						resolve(values);
+					}
+				}, catcher);
+			}
+		});
+	}
+
+	/**
+	 * Waits for every {@link Result.Promise} (or {@link Result}) in a tuple, array or record to resolve.
+	 *
+	 * Resolves to a {@link Result.Ok} containing each {@link Result}, in the same shape as the given tuple, array or record.
+	 * Rejects as soon as any promise rejects.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await Result.Promise.allSettled([fetchUser(id), fetchPrefs(id)]);
+	 * // Result<[Result<User, UserError>, Result<Prefs, PrefsError>], never>
+	 * ```
+	 */
+	public static allSettled<P extends readonly AnyResult[] | []>(results: P): Result.Promise<PromiseResultTypes<P>, never>;
+	public static allSettled<P extends Readonly<Record<PropertyKey, AnyResult>>>(results: P): Result.Promise<PromiseResultTypes<P>, never>;
+	public static allSettled(results: readonly AnyResult[] | Readonly<Record<PropertyKey, AnyResult>>): Result.Promise<unknown, never> {
+		const entries = entriesOf(results);
+		const values = createCollection(results);
+
+		return new Result.Promise((resolve, _, catcher) => {
+			let remaining = entries.length;
+			if (remaining === 0) {
+				return resolve(values);
+			}
+
+			for (const [key, value] of entries) {
+				onSettled(value, result => {
+					values[key] = result;
+
+					if (--remaining === 0) {
+						resolve(values);
+					}
+				}, catcher);
+			}
+		});
+	}
+
+	/**
+	 * Resolves to the first {@link Result.Ok} among a tuple, array or record of {@link Result.Promise} (or {@link Result}).
+	 *
+	 * If every promise resolves to a {@link Result.Error}, resolves to a {@link Result.Error} containing all errors,
+	 * in the same shape as the given tuple, array or record.
+	 * Rejects as soon as any promise rejects.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await Result.Promise.any([fetchFromPrimary(id), fetchFromReplica(id)]);
+	 * // Result<User, [PrimaryError, ReplicaError]>
+	 * ```
+	 */
+	public static any<P extends readonly AnyResult[] | []>(results: P): Result.Promise<PromiseOkType<P[number]>, PromiseErrorTypes<P>>;
+	public static any<P extends Readonly<Record<PropertyKey, AnyResult>>>(results: P): Result.Promise<PromiseOkType<P[keyof P]>, PromiseErrorTypes<P>>;
+	public static any(results: readonly AnyResult[] | Readonly<Record<PropertyKey, AnyResult>>): Result.Promise<unknown> {
+		const entries = entriesOf(results);
+		const errors = createCollection(results);
+
+		return new Result.Promise((resolve, reject, catcher) => {
+			let remaining = entries.length;
+			if (remaining === 0) {
+				return reject(errors);
+			}
+
+			for (const [key, value] of entries) {
+				onSettled(value, result => {
+					if (result.ok) {
+						return resolve(result.value);
+					}
+
+					errors[key] = result.error;
+
+					if (--remaining === 0) {
+						reject(errors);
+					}
+				}, catcher);
+			}
+		});
 	}
 
+	/**
+	 * Resolves to the first {@link Result} that any {@link Result.Promise} (or {@link Result})
+	 * in a tuple, array or record resolves to, be it a {@link Result.Ok} or a {@link Result.Error}.
+	 * Rejects if the first promise to settle rejects.
+	 *
+	 * If the tuple, array or record is empty, the returned promise never settles.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await Result.Promise.race([fetchUser(id), timeout(1000)]);
+	 * // Result<User, UserError | TimeoutError>
+	 * ```
+	 */
+	public static race<P extends readonly AnyResult[] | []>(results: P): Result.Promise<PromiseOkType<P[number]>, PromiseErrorType<P[number]>>;
+	public static race<P extends Readonly<Record<PropertyKey, AnyResult>>>(results: P): Result.Promise<PromiseOkType<P[keyof P]>, PromiseErrorType<P[keyof P]>>;
+	public static race(results: readonly AnyResult[] | Readonly<Record<PropertyKey, AnyResult>>): Result.Promise<unknown> {
+		return new Result.Promise((resolve, reject, catcher) => {
+			for (const [, value] of entriesOf(results)) {
+				onSettled(value, result => result.ok
+					? resolve(result.value)
+					: reject(result.error), catcher);
+			}
+		});
+	}
+
+	/**
+	 * Maps each item of an iterable through a function, with a bounded number of calls in flight at once.
+	 *
+	 * The function may return a plain value, a {@link Result}, a {@link Result.Promise} or a {@link PromiseLike}.
+	 * The values are collected in the same order as the items, regardless of the order in which they resolve.
+	 *
+	 * With `stopOnError` enabled (the default), resolves to the first {@link Result.Error} as soon as it occurs,
+	 * and no further calls are started; otherwise, every item is processed and, if any call failed,
+	 * resolves to a {@link Result.Error} containing all errors, in the order of their items.
+	 * Rejects as soon as any call throws or rejects.
+	 *
+	 * @example
+	 * ```typescript
+	 * const users = await Result.Promise.traverse(ids, id => fetchUser(id), { concurrency: 8 });
+	 * // Result<User[], FetchError>
+	 *
+	 * const all = await Result.Promise.traverse(ids, id => fetchUser(id), { concurrency: 8, stopOnError: false });
+	 * // Result<User[], FetchError[]>
+	 *
+	 * const either = await Result.Promise.traverse(ids, id => fetchUser(id), { stopOnError: flag }); // flag: boolean
+	 * // Result<User[], FetchError | FetchError[]>
+	 * ```
+	 */
+	public static traverse<T, U, E>(items: Iterable<T>, fn: (item: T, index: number) => Result<U, E> | Result.Promise<U, E>, options: TraverseOptions & { stopOnError: false }): Result.Promise<U[], E[]>;
+	public static traverse<T, U, E>(items: Iterable<T>, fn: (item: T, index: number) => Result<U, E> | Result.Promise<U, E>, options?: TraverseOptions & { stopOnError?: true }): Result.Promise<U[], E>;
+	public static traverse<T, U, E>(items: Iterable<T>, fn: (item: T, index: number) => Result<U, E> | Result.Promise<U, E>, options: TraverseOptions): Result.Promise<U[], E | E[]>;
+	public static traverse<T, U>(items: Iterable<T>, fn: (item: T, index: number) => U | PromiseLike<U>, options: TraverseOptions & { stopOnError: false }): Result.Promise<U[], never[]>;
+	public static traverse<T, U>(items: Iterable<T>, fn: (item: T, index: number) => U | PromiseLike<U>, options?: TraverseOptions): Result.Promise<U[], never>;
+	public static traverse<T, U, E>(
+		items: Iterable<T>,
+		fn: (item: T, index: number) => U | Result<U, E> | Result.Promise<U, E> | PromiseLike<U>,
+		{ concurrency = Infinity, stopOnError = true }: TraverseOptions = {}
+	): Result.Promise<U[], E | E[]> {
+		if (!(concurrency >= 1)) {
+			throw new RangeError("concurrency must be at least 1, but got " + String(concurrency));
+		}
+
+		return new Result.Promise((resolve, reject, catcher) => {
+			const iterator = items[Symbol.iterator]();
+
+			const values: U[] = [];
+			const errors: [number, E][] = [];
+
+			let index = 0;
+			let active = 0;
+			let done = false;
+			let stopped = false;
+			let pumping = false;
+
+			const stop = (): void => {
+				stopped = true;
+
+				iterator.return?.();
+			};
+
+			const pump = (): void => {
+				// completions that resolve synchronously re-enter here; the running loop picks them up instead
+				if (pumping) {
+					return;
+				}
+
+				pumping = true;
+
+				while (!stopped && !done && active < concurrency) {
+					let item: IteratorResult<T>;
+					let value: ReturnType<typeof fn>;
+					const current = index++;
+					try {
+						item = iterator.next();
+						if (item.done) {
+							done = true;
+
+							break;
+						}
+
+						value = fn(item.value, current);
+					} catch (reason: unknown) {
+						stop();
+
+						return catcher(reason);
+					}
+
+					active++;
+
+					handleValueResolution(
+						value,
+						value => {
+							active--;
+							values[current] = value;
+
+							pump();
+						},
+						error => {
+							active--;
+
+							if (stopOnError) {
+								stop();
+
+								return reject(error);
+							}
+
+							errors.push([current, error]);
+
+							pump();
+						},
+						reason => {
+							stop();
+
+							catcher(reason);
+						}
+					);
+				}
+
+				pumping = false;
+
+				if (!stopped && done && active === 0) {
+					stopped = true;
+
+					if (errors.length === 0) {
+						return resolve(values);
+					}
+
+					errors.sort(([ lhs ], [ rhs ]) => lhs - rhs);
+
+					reject(errors.map(([, error]) => error));
+				}
+			};
+
+			pump();
+		});
+	}
+
+	/**
+	 * Calls a function producing a {@link Result} or {@link Result.Promise} until it succeeds, waiting between attempts.
+	 *
+	 * An attempt resolving to a {@link Result.Error} is retried as long as the attempt limit and the elapsed time limit
+	 * are not exceeded, and the `shouldRetry` predicate (if any) accepts the error.
+	 * Once exhausted, resolves to the last error or, with `history` enabled, to every error in the order of their attempts.
+	 * A thrown error or rejection is never retried, and rejects immediately.
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = await Result.Promise.retry(() => fetchUser(id), {
+	 *   maxAttempts: 5,
+	 *   backoff: { type: "exponential", initial: 100, max: 2000 },
+	 *   jitter: true,
+	 *   shouldRetry: error => error.transient
+	 * }); // Result<User, FetchError>
+	 *
+	 * const attempts = await Result.Promise.retry(() => fetchUser(id), { history: true }); // Result<User, FetchError[]>
+	 * ```
+	 */
+	public static retry<T, E>(fn: (attempt: number) => Result<T, E> | Result.Promise<T, E>, policy: RetryPolicy<E> & { history: true }): Result.Promise<T, E[]>;
+	public static retry<T, E>(fn: (attempt: number) => Result<T, E> | Result.Promise<T, E>, policy?: RetryPolicy<E> & { history?: false }): Result.Promise<T, E>;
+	public static retry<T, E>(fn: (attempt: number) => Result<T, E> | Result.Promise<T, E>, policy: RetryPolicy<E>): Result.Promise<T, E | E[]>;
+	public static retry<T, E>(
+		fn: (attempt: number) => Result<T, E> | Result.Promise<T, E>,
+		{
+			maxAttempts = 3,
+			maxElapsed = Infinity,
+			backoff = { type: "fixed", delay: 0 },
+			jitter = false,
+			shouldRetry,
+			history = false,
+			scheduler = defaultScheduler
+		}: RetryPolicy<E> = {}
+	): Result.Promise<T, E | E[]> {
+		const delayOf = (attempt: number): number => {
+			const delay = backoff instanceof Function
+				? backoff(attempt)
+				: backoff.type === "fixed"
+					? backoff.delay
+					: Math.min(backoff.max ?? Infinity, backoff.initial * Math.pow(backoff.factor ?? 2, attempt - 1));
+
+			return jitter
+				? Math.floor((scheduler.random ?? Math.random)() * delay)
+				: delay;
+		};
+
+		return new Result.Promise((resolve, reject, catcher) => {
+			const start = scheduler.now();
+			const errors: E[] = [];
+
+			const run = (attempt: number): void => {
+				let value: ReturnType<typeof fn>;
+				try {
+					value = fn(attempt);
+				} catch (reason: unknown) {
+					return catcher(reason);
+				}
+
+				handleValueResolution(value, resolve, error => {
+					errors.push(error);
+
+					let delay: number;
+					try {
+						if (attempt >= maxAttempts || shouldRetry && !shouldRetry(error, attempt)) {
+							return reject(history ? errors : error);
+						}
+
+						delay = delayOf(attempt);
+					} catch (reason: unknown) {
+						return catcher(reason);
+					}
+
+					if (scheduler.now() - start + delay > maxElapsed) {
+						return reject(history ? errors : error);
+					}
+
+					void scheduler.sleep(delay).then(() => run(attempt + 1), catcher);
+				}, catcher);
+			};
+
+			run(1);
+		});
+	}
+
+	/**
+	 * Validates an unknown value against a schema implementing the {@link https://standardschema.dev Standard Schema} interface,
+	 * whether its validator is synchronous or asynchronous.
+	 *
+	 * Resolves to a {@link Result.Error} with the issues found, each with the path of keys leading to the invalid value.
+	 * A thrown error or rejection of the validator rejects the promise.
+	 *
+	 * @example
+	 * ```typescript
+	 * const Username = z.string().refine(async name => !await isTaken(name), "already taken");
+	 *
+	 * const username = await Result.Promise.parse(Username, input); // Result<string, SchemaIssues>
+	 * ```
+	 */
+	public static parse<S extends StandardSchema>(schema: S, input: unknown): Result.Promise<SchemaOutput<S>, SchemaIssues> {
+		return new Result.Promise((resolve, reject, catcher) => {
+			void Promise.resolve(schema["~standard"].validate(input)).then(result => result.issues
+				? reject(normalizeIssues(result.issues))
+				: resolve(result.value as SchemaOutput<S>), catcher);
+		});
+	}
+
+	/**
+	 * Creates a {@link Result.Promise} from an executor, which settles it through one of three callbacks:
+	 * `resolve` with a success value, `reject` with an error value, or `catcher` with a thrown reason (rejecting the promise).
+	 *
+	 * When an abort `signal` is given, it is passed on to the executor so that the producer can clean up,
+	 * and the promise resolves to a {@link Result.Error} with an {@link AbortedError} as soon as the signal is aborted.
+	 * If the signal is already aborted, the executor is not called at all.
+	 * An abort `signal` is only accepted when `E` includes {@link AbortedError}, so that the type does not hide it.
+	 */
 	public constructor(
 		executor: (
 			resolve: (value: T) => void,
 			reject: (error: E) => void,
-			catcher: (reason: unknown) => void
-		) => void
+			catcher: (reason: unknown) => void,
+			signal?: AbortSignal
+		) => void,
+		options?: AbortedError extends E ? AbortOptions : never
 	) {
-		super((resolve, reject) => executor(
-			value => resolve(new Result.Ok(value)),
-			error => resolve(new Result.Error(error)),
-			reject
-		));
+		const settlement: { current: Settlement } = { current: { status: "pending" } };
+
+		super((resolveBase, rejectBase) => {
+			const resolve = (result: Result<T, E>): void => {
+				if (settlement.current.status === "pending") {
+					settlement.current = { status: "fulfilled", result };
+				}
+
+				resolveBase(result);
+			};
+			const reject = (reason: unknown): void => {
+				if (settlement.current.status === "pending") {
+					settlement.current = { status: "rejected", reason };
+				}
+
+				rejectBase(reason);
+			};
+
+			// a synchronous throw of the executor goes through the tracked `reject`, so that the settlement is recorded
+			const signal = options?.signal;
+			if (!signal) {
+				try {
+					executor(
+						value => resolve(new Result.Ok(value)),
+						error => resolve(new Result.Error(error)),
+						reject
+					);
+				} catch (err: unknown) {
+					reject(err);
+				}
+
+				return;
+			}
+
+			const abort = (): void => resolve(new Result.Error(new AbortedError(signal.reason)) as Result.Error<E>);
+			if (signal.aborted) {
+				return abort();
+			}
+
+			signal.addEventListener("abort", abort, { once: true });
+
+			try {
+				executor(
+					value => {
+						signal.removeEventListener("abort", abort);
+						resolve(new Result.Ok(value));
+					},
+					error => {
+						signal.removeEventListener("abort", abort);
+						resolve(new Result.Error(error));
+					},
+					reason => {
+						signal.removeEventListener("abort", abort);
+						reject(reason);
+					},
+					signal
+				);
+			} catch (err: unknown) {
+				signal.removeEventListener("abort", abort);
+				reject(err);
+			}
+		});
+
+		settlements.set(this, settlement);
+	}
+
+	// a getter, as the inherited `Promise.prototype[Symbol.toStringTag]` is read-only and cannot be shadowed by a field
+	// eslint-disable-next-line @typescript-eslint/class-literal-property-style
+	public get [Symbol.toStringTag](): string {
+		return "Result.Promise";
+	}
+
+	/**
+	 * Renders the promise along with its state, as `Result.Promise { <pending> }`, `Result.Promise { Ok(42) }`
+	 * or `Result.Promise { <rejected> reason }`.
+	 */
+	public override toString(): string {
+		return renderSettlement(this, "Result.Promise", "<pending>", "<rejected>", display);
+	}
+
+	public [inspectSymbol](depth: number, options: InspectOptions, inspect?: Inspect): string {
+		if (depth < 0) {
+			return options.stylize("[Result.Promise]", "special");
+		}
+
+		const nested = { ...options, depth: typeof options.depth === "number" ? options.depth - 1 : options.depth };
+
+		return renderSettlement(
+			this,
+			options.stylize("Result.Promise", "special"),
+			options.stylize("<pending>", "special"),
+			options.stylize("<rejected>", "special"),
+			value => inspect
+				? inspect(value, nested)
+				: display(value)
+		);
 	}
 
 	public override then(onresult?: null, onthrow?: null): Result.Promise<T, E>
@@ -91,23 +877,82 @@ export class ResultPromise<T=void, E=unknown> extends Promise<Result<T, E>> {
 		}
 
 		return new Result.Promise((resolve, reject, catcher) =>
-			void super.catch(reason => {
-				let value: ReturnType<typeof onthrow>;
-				try {
-					value = onthrow(reason);
-				} catch (reason: unknown) {
-					return catcher(reason);
+			void super.then(
+				result => result.ok
+					? resolve(result.value)
+					: reject(result.error),
+				reason => {
+					let value: ReturnType<typeof onthrow>;
+					try {
+						value = onthrow(reason);
+					} catch (reason: unknown) {
+						return catcher(reason);
+					}
+
+					handleValueResolution(value, resolve, reject, catcher);
 				}
+			));
+	}
 
-				handleValueResolution(value, resolve, reject, catcher);
-			}));
+	/**
+	 * Folds defects into the error channel: if this promise rejects, whether from a thrown error in a callback
+	 * or a rejected promise, resolves to a {@link Result.Error} with a {@link Defect} whose `cause` is the rejection reason.
+	 * The returned {@link Result.Promise} never rejects.
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = await fetchUser(id).map(user => JSON.parse(user.settings)).sandbox(); // Result<Settings, FetchError | Defect>
+	 * ```
+	 */
+	public sandbox(): Result.Promise<T, E | Defect> {
+		return new Result.Promise((resolve, reject) =>
+			void settled(this).then(
+				result => result.ok
+					? resolve(result.value)
+					: reject(result.error),
+				(reason: unknown) => reject(new Defect(reason))
+			));
+	}
+
+	/**
+	 * Recovers from a defect: if this promise rejects, whether from a thrown error in a callback or a rejected promise,
+	 * resolves to the {@link Result} returned by a function of the rejection reason. A {@link Result} is resolved to unchanged.
+	 *
+	 * If the function throws in turn, the returned {@link Result.Promise} rejects with that error.
+	 *
+	 * @example
+	 * ```typescript
+	 * const settings = fetchSettings(id).
+	 *   map(settings => JSON.parse(settings)).
+	 *   catchDefect(() => Result.ok(defaultSettings)); // Result.Promise<Settings, FetchError>
+	 * ```
+	 */
+	public catchDefect<U, F = never>(fn: (reason: unknown) => Result<U, F> | Result.Promise<U, F>): Result.Promise<T | U, E | F> {
+		return new Result.Promise<T | U, E | F>((resolve, reject, catcher) => {
+			settled(this).
+				then(
+					result => result.ok
+						? resolve(result.value)
+						: reject(result.error),
+					(reason: unknown) => handleValueResolution(fn(reason), resolve, reject, catcher)
+				).
+				catch(catcher);
+		});
+	}
+
+	public isOkAnd(fn: (value: T) => boolean | PromiseLike<boolean>): Promise<boolean> {
+		return settled(this).then(result => result.ok && fn(result.value));
+	}
+
+	public isErrorAnd(fn: (error: E) => boolean | PromiseLike<boolean>): Promise<boolean> {
+		return settled(this).then(result => !result.ok && fn(result.error));
 	}
 
 	public map<U>(fn: (value: T) => Result<U, E> | Result.Promise<U, E>): Result.Promise<U, E>;
 	public map<U>(fn: (value: T) => U | PromiseLike<U>): Result.Promise<U, never>;
 	public map<U>(fn: (value: T) => U | Result<U, E> | Result.Promise<U, E> | PromiseLike<U>): Result.Promise<U> {
 		return new Result.Promise((resolve, reject, catcher) =>
-			void this.then(result => {
+			whenSettled(this, result => {
 				if (!result.ok) {
 					return reject(result.error);
 				}
@@ -115,7 +960,7 @@ export class ResultPromise<T=void, E=unknown> extends Promise<Result<T, E>> {
 				const value = fn(result.value);
 
 				handleValueResolution(value, resolve, reject, catcher);
-			}));
+			}, catcher));
 	}
 
 	public mapOrElse<U, F>(defaultValue: (err: E) => Result<U, F> | Result.Promise<U, F>, fn: (value: T) => Result<U, F> | Result.Promise<U, F>): Result.Promise<U, F>;
@@ -126,20 +971,20 @@ export class ResultPromise<T=void, E=unknown> extends Promise<Result<T, E>> {
 		fn: (value: T) => U | Result<U, F> | Result.Promise<U, F> | PromiseLike<U>
 	): Result.Promise<U> {
 		return new Result.Promise((resolve, reject, catcher) =>
-			void this.then(result => {
+			whenSettled(this, result => {
 				const value = result.ok
 					? fn(result.value)
 					: defaultValue(result.error);
 
 				handleValueResolution(value, resolve, reject, catcher);
-			}));
+			}, catcher));
 	}
 
 	public andThen<U>(fn: (value: T) => Result<U, E> | Result.Promise<U, E>): Result.Promise<U, E>;
 	public andThen<U>(fn: (value: T) => U | PromiseLike<U>): Result.Promise<U, never>;
 	public andThen<U>(fn: (value: T) => U | Result<U, E> | Result.Promise<U, E> | PromiseLike<U>): Result.Promise<U> {
 		return new Result.Promise((resolve, reject, catcher) =>
-			void this.then(result => {
+			whenSettled(this, result => {
 				if (!result.ok) {
 					return reject(result.error);
 				}
@@ -147,14 +992,14 @@ export class ResultPromise<T=void, E=unknown> extends Promise<Result<T, E>> {
 				const value = fn(result.value);
 
 				handleValueResolution(value, resolve, reject, catcher);
-			}));
+			}, catcher));
 	}
 
 	public orElse<F>(fn: (err: E) => Result<T, F> | Result.Promise<T, F>): Result.Promise<T, F>;
 	public orElse(fn: (err: E) => T | PromiseLike<T>): Result.Promise<T>;
 	public orElse<F>(fn: (err: E) => T | Result<T, F> | Result.Promise<T, F> | PromiseLike<T>): Result.Promise<T> {
 		return new Result.Promise((resolve, reject, catcher) =>
-			void this.then(result => {
+			whenSettled(this, result => {
 				if (result.ok) {
 					return resolve(result.value);
 				}
@@ -162,8 +1007,561 @@ export class ResultPromise<T=void, E=unknown> extends Promise<Result<T, E>> {
 				const value = fn(result.error);
 
 				handleValueResolution(value, resolve, reject, catcher);
-			}));
+			}, catcher));
+	}
+
+	public mapOr<U>(defaultValue: U, fn: (value: T) => U | PromiseLike<U>): Promise<U> {
+		return settled(this).then(result => result.ok
+			? fn(result.value)
+			: defaultValue);
+	}
+
+	public mapErr<F>(fn: (err: E) => F | PromiseLike<F>): Result.Promise<T, F> {
+		return new Result.Promise((resolve, reject, catcher) =>
+			whenSettled(this, result => {
+				if (result.ok) {
+					return resolve(result.value);
+				}
+
+				void Promise.resolve(fn(result.error)).then(reject, catcher);
+			}, catcher));
+	}
+
+	/**
+	 * Calls a function with the success value, if the promise resolves to a {@link Result.Ok}, for its side effects.
+	 * If the function returns a promise, it is awaited before the returned {@link Result.Promise} resolves to the same {@link Result}.
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = await fetchUser(id).inspect(user => cache.set(id, user)); // Result<User, FetchError>, once cached
+	 * ```
+	 */
+	public inspect(fn: (value: T) => unknown): Result.Promise<T, E> {
+		return new Result.Promise((resolve, reject, catcher) =>
+			whenSettled(this, result => {
+				if (!result.ok) {
+					return reject(result.error);
+				}
+
+				void Promise.resolve(fn(result.value)).then(() => resolve(result.value), catcher);
+			}, catcher));
+	}
+
+	/**
+	 * Calls a function with the error value, if the promise resolves to a {@link Result.Error}, for its side effects.
+	 * If the function returns a promise, it is awaited before the returned {@link Result.Promise} resolves to the same {@link Result}.
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = await fetchUser(id).inspectError(error => logger.flush(error)); // Result<User, FetchError>, once flushed
+	 * ```
+	 */
+	public inspectError(fn: (err: E) => unknown): Result.Promise<T, E> {
+		return new Result.Promise((resolve, reject, catcher) =>
+			whenSettled(this, result => {
+				if (result.ok) {
+					return resolve(result.value);
+				}
+
+				void Promise.resolve(fn(result.error)).then(() => reject(result.error), catcher);
+			}, catcher));
+	}
+
+	public values(): AsyncGenerator<T extends AsyncIterable<infer U> | Iterable<infer U> ? U : T, void, undefined> {
+		return this[Symbol.asyncIterator]();
+	}
+
+	public async forEach(fn: (value: T extends AsyncIterable<infer U> | Iterable<infer U> ? U : T) => unknown): Promise<void> {
+		for await (const value of this) {
+			await fn(value);
+		}
+	}
+
+	public expect(msg: string): Promise<T>;
+	public expect(fn: (err: E) => never): Promise<T>;
+	public expect(msgOrFn: string | ((err: E) => never)): Promise<T> {
+		return settled(this).then(result => {
+			if (result.ok) {
+				return result.value;
+			}
+
+			return typeof msgOrFn === "string"
+				? result.expect(msgOrFn)
+				: result.expect(msgOrFn);
+		});
+	}
+
+	public unwrap(): Promise<T> {
+		return settled(this).then(result => result.unwrap());
+	}
+
+	public unwrapOr(defaultValue: T): Promise<T> {
+		return settled(this).then(result => result.ok
+			? result.value
+			: defaultValue);
+	}
+
+	public unwrapOrElse(defaultValue: (err: E) => T | PromiseLike<T>): Promise<T> {
+		return settled(this).then(result => result.ok
+			? result.value
+			: defaultValue(result.error));
+	}
+
+	public unwrapError(fn?: (value: T) => E): Promise<E> {
+		return settled(this).then(result => result.ok
+			? result.unwrapError(fn)
+			: result.error);
+	}
+
+	public and<U>(result: Result<U, E> | Result.Promise<U, E>): Result.Promise<U, E> {
+		return this.andThen(() => result);
+	}
+
+	public or<F>(result: Result<T, F> | Result.Promise<T, F>): Result.Promise<T, F> {
+		return this.orElse(() => result);
+	}
+
+	public clone(): Result.Promise<T, E> {
+		return this.then(result => result.clone());
+	}
+
+	public equals(other: Result<unknown> | Result.Promise<unknown>, eq?: (a: T | E, b: T | E) => boolean): Promise<boolean> {
+		return Promise.all([settled(this), other]).then(([result, otherResult]) => result.equals(otherResult, eq));
+	}
+
+	public flatten(): [T] extends [Result<unknown> | Result.Promise<unknown>] ? Result.Promise<PromiseOkType<T>, E | PromiseErrorType<T>> : Result.Promise<T, E> {
+		return this.then(result => result.ok && (Result.is(result.value) || result.value instanceof Result.Promise)
+			? result.value as Result<unknown>
+			: result) as [T] extends [Result<unknown> | Result.Promise<unknown>] ? never : Result.Promise<T, E>;
+	}
+
+	public toOption(): Promise<Option<T>> {
+		return settled(this).then(result => result.toOption());
+	}
+
+	public err(): Promise<Option<E>> {
+		return settled(this).then(result => result.err());
+	}
+
+	public transpose<U>(this: Result.Promise<Option<U>, E>): Promise<Option<Result<U, E>>> {
+		return settled(this).then(result => result.ok
+			? result.transpose()
+			: result.transpose());
+	}
+
+	/**
+	 * Recovers from the errors of a tagged error union with the given `_tag`, calling a function with the error
+	 * if this promise resolves to a {@link Result.Error} with that tag, and resolving to the same result otherwise.
+	 *
+	 * The handled errors are removed from the error type of the returned promise.
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = findUser(id) // Result.Promise<User, NotFound | DbError>
+	 *   .catchTag("NotFound", () => createUser(id)); // Result.Promise<User, DbError | CreateError>
+	 * ```
+	 */
+	public catchTag<K extends TagOf<E>, U, F = never>(tag: K, fn: (error: Extract<E, { readonly _tag: K }>) => Result<U, F> | Result.Promise<U, F>): Result.Promise<T | U, ExcludeTag<E, K> | F> {
+		return new Result.Promise((resolve, reject, catcher) =>
+			whenSettled(this, result => {
+				if (result.ok) {
+					return resolve(result.value);
+				}
+
+				if (!isTagged(result.error, tag)) {
+					return reject(result.error as ExcludeTag<E, K>);
+				}
+
+				const value = fn(result.error as Extract<E, { readonly _tag: K }>);
+
+				handleValueResolution(value, resolve, reject, catcher);
+			}, catcher));
 	}
+
+	/**
+	 * Recovers from several errors of a tagged error union at once, with one handler per `_tag`.
+	 * Errors whose tag has no handler are kept unchanged.
+	 *
+	 * The handled errors are removed from the error type of the returned promise.
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = saveUser(user) // Result.Promise<User, NotFound | Conflict | DbError>
+	 *   .catchTags({
+	 *     NotFound: () => Result.ok(guest),
+	 *     Conflict: error => Result.Promise.error(error.message)
+	 *   }); // Result.Promise<User, DbError | string>
+	 * ```
+	 */
+	public catchTags<H extends TagHandlers<E, Result<unknown> | Result.Promise<unknown>>>(handlers: H): Result.Promise<T | PromiseOkType<ReturnType<NonNullable<H[keyof H]>>>, ExcludeTag<E, keyof H> | PromiseErrorType<ReturnType<NonNullable<H[keyof H]>>>> {
+		return new Result.Promise((resolve, reject, catcher) =>
+			whenSettled(this, result => {
+				if (result.ok) {
+					return resolve(result.value);
+				}
+
+				const handler = findTagHandler(handlers, result.error);
+				if (!handler) {
+					return reject(result.error as ExcludeTag<E, keyof H>);
+				}
+
+				const value = handler(result.error) as Result<PromiseOkType<ReturnType<NonNullable<H[keyof H]>>>, PromiseErrorType<ReturnType<NonNullable<H[keyof H]>>>>;
+
+				handleValueResolution(value, resolve, reject, catcher);
+			}, catcher));
+	}
+
+	/**
+	 * Wraps the error of a {@link Result.Error} in a {@link ContextError} describing what was being done,
+	 * keeping the original error as its `cause`. A {@link Result.Ok} is resolved to unchanged.
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = fetchUser(id).context(`loading user ${id}`); // Result.Promise<User, ContextError<FetchError>>
+	 * ```
+	 */
+	public context(context: string): Result.Promise<T, ContextError<E>> {
+		return this.withContext(() => context);
+	}
+
+	/**
+	 * Wraps the error of a {@link Result.Error} in a {@link ContextError} with the description returned by a function,
+	 * keeping the original error as its `cause`. A {@link Result.Ok} is resolved to unchanged.
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = fetchUser(id).withContext(error => `loading user ${id} (${error.status})`);
+	 * ```
+	 */
+	public withContext(fn: (error: E) => string): Result.Promise<T, ContextError<E>> {
+		return new Result.Promise((resolve, reject, catcher) =>
+			whenSettled(this, result => {
+				if (result.ok) {
+					return resolve(result.value);
+				}
+
+				reject(new ContextError(fn(result.error), result.error));
+			}, catcher));
+	}
+
+	/**
+	 * Calls the handler matching the variant of the result this promise resolves to, and resolves to its value.
+	 * The handlers may be asynchronous, in which case their promises are awaited.
+	 *
+	 * The error handler may be a single function, or, if the error is a union of tagged errors
+	 * (discriminated by a `_tag` field), an object with one handler per tag, all of which must be given.
+	 *
+	 * Rejects if this promise rejects, or if the matching handler throws or rejects.
+	 *
+	 * @example
+	 * ```typescript
+	 * const status = await fetchUser(id).match({
+	 *   ok: async user => { await audit(user); return 200; },
+	 *   error: {
+	 *     NotFound: () => 404,
+	 *     Conflict: () => 409
+	 *   }
+	 * }); // number
+	 * ```
+	 */
+	public match<U, V = U>(matcher: Matcher<T, E, U | PromiseLike<U>, V | PromiseLike<V>>): Promise<U | V> {
+		return settled(this).then(result => result.ok
+			? matcher.ok(result.value)
+			: matchError(matcher.error, result.error));
+	}
+
+	/**
+	 * Bounds the time this promise may take to settle.
+	 *
+	 * If it does not settle within `ms` milliseconds, resolves to a {@link Result.Error} with a {@link TimeoutError},
+	 * or with the error returned by `onTimeout`, if given.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await fetchUser(id).timeout(1000); // Result<User, FetchError | TimeoutError>
+	 *
+	 * const custom = await fetchUser(id).timeout(1000, () => "slow" as const); // Result<User, FetchError | "slow">
+	 * ```
+	 */
+	public timeout(ms: number): Result.Promise<T, E | TimeoutError>;
+	public timeout<F>(ms: number, onTimeout: () => F): Result.Promise<T, E | F>;
+	public timeout<F>(ms: number, onTimeout?: () => F): Result.Promise<T, E | F | TimeoutError> {
+		return new Result.Promise((resolve, reject, catcher) => {
+			const timer = setTimeout(() => {
+				let error: F | TimeoutError;
+				try {
+					error = onTimeout
+						? onTimeout()
+						: new TimeoutError(ms);
+				} catch (reason: unknown) {
+					return catcher(reason);
+				}
+
+				reject(error);
+			}, ms);
+
+			void this.then(
+				result => {
+					clearTimeout(timer);
+
+					return result.ok
+						? resolve(result.value)
+						: reject(result.error);
+				},
+				reason => {
+					clearTimeout(timer);
+
+					catcher(reason);
+				}
+			);
+		});
+	}
+
+	/**
+	 * Returns a generator to be delegated to with `yield*` inside {@link Result.Promise.gen}.
+	 *
+	 * Delegating evaluates to the success value once the promise resolves to a {@link Result.Ok},
+	 * or short-circuits the enclosing generator with the error if it resolves to a {@link Result.Error}.
+	 */
+	public *bind(): Generator<this, T, T> {
+		return yield this;
+	}
+
+	public [asyncDisposeSymbol](): Promise<void> {
+		return settled(this).then(result => result[asyncDisposeSymbol](), () => undefined);
+	}
+
+	/**
+	 * Iterates asynchronously over the success value, mirroring {@link Result.Ok} iteration once the promise resolves.
+	 *
+	 * If it resolves to a {@link Result.Ok} whose value is an (async) iterable, iterates over its elements,
+	 * otherwise yields the value once. If it resolves to a {@link Result.Error}, yields nothing.
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const user of Result.Promise.from(fetchUsers())) // Result.Promise<User[]>
+	 * {
+	 *   console.log(user.name);
+	 * }
+	 * ```
+	 */
+	public async *[Symbol.asyncIterator](): AsyncGenerator<T extends AsyncIterable<infer U> | Iterable<infer U> ? U : T, void, undefined> {
+		const result = await this;
+		if (!result.ok) {
+			return;
+		}
+
+		const { value } = result as ResultValue<unknown>;
+		if (isAsyncIterable(value) || isIterable(value)) {
+			yield* value as AsyncIterable<T extends AsyncIterable<infer U> | Iterable<infer U> ? U : T>;
+		} else {
+			yield value as T extends AsyncIterable<infer U> | Iterable<infer U> ? U : T;
+		}
+	}
+}
+
+/**
+ * Options for {@link ResultPromise.traverse}.
+ */
+export type TraverseOptions = {
+	/**
+	 * The maximum number of calls in flight at once. Defaults to `Infinity`.
+	 */
+	readonly concurrency?: number;
+
+	/**
+	 * Whether to stop at the first error, or to process every item and collect all errors. Defaults to `true`.
+	 */
+	readonly stopOnError?: boolean;
+};
+
+/**
+ * Options for aborting a {@link ResultPromise} through an {@link AbortSignal}.
+ */
+export type AbortOptions = {
+	/**
+	 * The signal that, once aborted, resolves the promise to a {@link Result.Error} with an {@link AbortedError}.
+	 */
+	readonly signal?: AbortSignal;
+};
+
+/**
+ * Options for {@link ResultPromise.once}.
+ */
+export type OnceOptions = AbortOptions & {
+	/**
+	 * The event that resolves the promise to a {@link Result.Error}. Defaults to `"error"`.
+	 */
+	readonly errorEvent?: string | symbol;
+};
+
+/**
+ * The delay, in milliseconds, to wait between attempts of {@link ResultPromise.retry}.
+ *
+ * - `{ type: "fixed", delay }` waits the same `delay` after every attempt.
+ * - `{ type: "exponential", initial, factor, max }` waits `initial * factor ^ (attempt - 1)`, up to `max`.
+ *   `factor` defaults to `2`, and `max` to `Infinity`.
+ * - A function receives the (1-based) number of the attempt that just failed, and returns the delay.
+ */
+export type Backoff =
+	| { readonly type: "fixed"; readonly delay: number }
+	| { readonly type: "exponential"; readonly initial: number; readonly factor?: number; readonly max?: number }
+	| ((attempt: number) => number);
+
+/**
+ * The source of time and randomness used by {@link ResultPromise.retry}, replaceable in tests to avoid real timers.
+ */
+export type RetryScheduler = {
+	/**
+	 * Returns the current time, in milliseconds.
+	 */
+	now(): number;
+
+	/**
+	 * Returns a promise that resolves after the given amount of milliseconds.
+	 */
+	sleep(ms: number): PromiseLike<unknown>;
+
+	/**
+	 * Returns a random number in the range `[0, 1)`, used for jitter. Defaults to {@link Math.random}.
+	 */
+	random?(): number;
+};
+
+/**
+ * The policy for {@link ResultPromise.retry}.
+ *
+ * @template E The type of the error value.
+ */
+export type RetryPolicy<E> = {
+	/**
+	 * The maximum number of attempts, including the first one. Defaults to `3`.
+	 */
+	readonly maxAttempts?: number;
+
+	/**
+	 * The maximum time, in milliseconds, since the first attempt after which no further attempt is started.
+	 * Defaults to `Infinity`.
+	 */
+	readonly maxElapsed?: number;
+
+	/**
+	 * The delay between attempts. Defaults to no delay.
+	 */
+	readonly backoff?: Backoff;
+
+	/**
+	 * Whether to randomize each delay between `0` and its full value ("full jitter"). Defaults to `false`.
+	 */
+	readonly jitter?: boolean;
+
+	/**
+	 * Decides whether an error, from the given (1-based) attempt, should be retried. Defaults to retrying every error.
+	 */
+	readonly shouldRetry?: (error: E, attempt: number) => boolean;
+
+	/**
+	 * Whether to resolve to the errors of every attempt, instead of only the last one, once exhausted. Defaults to `false`.
+	 */
+	readonly history?: boolean;
+
+	/**
+	 * The source of time and randomness. Defaults to {@link Date.now}, {@link setTimeout} and {@link Math.random}.
+	 */
+	readonly scheduler?: RetryScheduler;
+};
+
+/**
+ * The state of a {@link ResultPromise}, tracked synchronously for debug output.
+ */
+type Settlement =
+	{ readonly status: "pending" } |
+	{ readonly status: "fulfilled"; readonly result: Result<unknown> } |
+	{ readonly status: "rejected"; readonly reason: unknown };
+
+const settlements = new WeakMap<ResultPromise<unknown>, { readonly current: Settlement }>();
+
+function renderSettlement(
+	promise: ResultPromise<unknown>,
+	label: string,
+	pending: string,
+	rejected: string,
+	print: (value: unknown) => string
+): string {
+	const settlement = settlements.get(promise)?.current ?? { status: "pending" };
+
+	switch (settlement.status) {
+	case "pending":
+		return label + " { " + pending + " }";
+	case "fulfilled":
+		return label + " { " + print(settlement.result) + " }";
+	case "rejected":
+		return label + " { " + rejected + " " + print(settlement.reason) + " }";
+	}
+}
+
+const defaultScheduler: RetryScheduler = {
+	now: () => Date.now(),
+	sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+type AnyResult = Result<unknown> | Result.Promise<unknown>;
+
+type PromiseOkTypes<P> = { -readonly [K in keyof P]: PromiseOkType<P[K]> };
+
+type PromiseErrorTypes<P> = { -readonly [K in keyof P]: PromiseErrorType<P[K]> };
+
+type PromiseResultTypes<P> = { -readonly [K in keyof P]: P[K] extends Result.Promise<infer T, infer E> ? Result<T, E> : P[K] };
+
+type GeneratorErrorType<Y> = Y extends ResultError<infer E>
+	? E
+	: Y extends Result.Promise<unknown, infer E>
+		? E
+		: never;
+
+function createCollection(collection: readonly unknown[] | Readonly<Record<PropertyKey, unknown>>): Record<PropertyKey, unknown> {
+	return Array.isArray(collection)
+		? new Array<unknown>(collection.length) as unknown as Record<PropertyKey, unknown>
+		: {};
+}
+
+function onSettled(
+	value: AnyResult,
+	fn: (result: Result<unknown>) => void,
+	catcher: (reason: unknown) => void
+): void {
+	if (value instanceof Result.Promise) {
+		return void value.then(fn, catcher);
+	}
+
+	fn(value);
+}
+
+/**
+ * Internal utility function for awaiting the {@link Result} of a {@link Result.Promise} as a native promise,
+ * so that callbacks chained onto it may return anything, including promises to be awaited.
+ *
+ * @param {Result.Promise<T, E>} promise The {@link Result.Promise} to await.
+ * @returns {Promise<Result<T, E>>} A native promise resolving to the same {@link Result}, or rejecting for the same reason.
+ */
+function settled<T, E>(promise: Result.Promise<T, E>): Promise<Result<T, E>> {
+	return new Promise((resolve, reject) =>
+		void promise.then(resolve, reject));
+}
+
+/**
+ * Internal utility function for calling a function with the {@link Result} of a {@link Result.Promise} once settled,
+ * passing both a rejection of the promise and an error thrown by the function to a `catcher`,
+ * so that a defect always rejects the {@link Result.Promise} being settled rather than leaving it pending.
+ *
+ * @param {Result.Promise<T, E>} promise The {@link Result.Promise} to wait for.
+ * @param {(result: Result<T, E>) => void} fn The function to call with the {@link Result}.
+ * @param {(reason: unknown) => void} catcher The function to call with a rejection reason or a thrown error.
+ */
+function whenSettled<T, E>(promise: Result.Promise<T, E>, fn: (result: Result<T, E>) => void, catcher: (reason: unknown) => void): void {
+	settled(promise).
+		then(fn).
+		catch(catcher);
 }
 
 function handleValueResolution<T, E>(
@@ -0,0 +1,165 @@
+import { Option, Result } from "..";
+import { IOption } from "../internal/contracts";
+import { isIterable } from "../internal/helpers";
+import { OptionSome } from "../internal/types";
+import { ErrorResult } from "./error";
+import { NoneOption } from "./none";
+import { OkResult } from "./ok";
+
+/**
+ * A variant of an {@link Option} that contains a value, accessible through the {@link value} field.
+ *
+ * Its {@link some} field is always true.
+ *
+ * @class {@link Option.Some}
+ */
+export class SomeOption<T> implements OptionSome<T>, IOption<T> {
+	public readonly some: true = true;
+
+	public readonly value: T;
+
+	public constructor(value: T) {
+		this.value = value;
+	}
+
+	public [Symbol.iterator](): Iterator<T extends Iterable<infer U> ? U : T> {
+		// if value is an iterable, return its iterator
+		if (isIterable<T extends Iterable<infer U> ? U : never>(this.value)) {
+			return this.value[Symbol.iterator]();
+		}
+
+		// else, return value as a single-element iterator
+		let done = false;
+
+		return {
+			next: (): IteratorResult<T, undefined> => {
+				if (done) {
+					return { done: true, value: undefined };
+				}
+
+				done = true;
+
+				return { done: false, value: this.value };
+			}
+		// eslint-disable-next-line @typescript-eslint/no-unused-vars
+		} as Iterator<T extends Iterable<infer U> ? never : T, unknown, undefined>;
+	}
+
+	public isSomeAnd<U extends T>(fn: (value: T) => value is U): this is SomeOption<U>
+	public isSomeAnd(fn: (value: T) => boolean): this is SomeOption<T>
+	public isSomeAnd(fn: (value: T) => boolean): boolean {
+		return fn(this.value);
+	}
+
+	public isNoneOr(fn: (value: T) => boolean): boolean {
+		return fn(this.value);
+	}
+
+	public map<U>(fn: (value: T) => U): SomeOption<U> {
+		return new SomeOption(fn(this.value));
+	}
+
+	public mapOr<U>(_: never, fn: (value: T) => U): U {
+		return fn(this.value);
+	}
+
+	public mapOrElse<U>(_: never, fn: (value: T) => U): U {
+		return fn(this.value);
+	}
+
+	public inspect(fn: (value: T) => void): this {
+		fn(this.value);
+
+		return this;
+	}
+
+	public *values(): Generator<T extends Iterable<infer U> ? U : T> {
+		if (isIterable<T extends Iterable<infer U> ? U : never>(this.value)) {
+			yield* this.value;
+		} else {
+			// eslint-disable-next-line @typescript-eslint/no-unused-vars
+			yield this.value as T extends Iterable<infer U> ? never : T;
+		}
+	}
+
+	public forEach(fn: (value: T extends Iterable<infer U> ? U : T) => void): void {
+		if (isIterable<T extends Iterable<infer U> ? U : never>(this.value)) {
+			for (const value of this.value) {
+				fn(value);
+			}
+		} else {
+			// eslint-disable-next-line @typescript-eslint/no-unused-vars
+			fn(this.value as T extends Iterable<infer U> ? never : T);
+		}
+	}
+
+	public expect(): T {
+		return this.value;
+	}
+
+	public unwrap(): T {
+		return this.value;
+	}
+
+	public unwrapOr(): T {
+		return this.value;
+	}
+
+	public unwrapOrElse(): T {
+		return this.value;
+	}
+
+	public okOr(): OkResult<T> {
+		return new OkResult(this.value);
+	}
+
+	public okOrElse(): OkResult<T> {
+		return new OkResult(this.value);
+	}
+
+	public filter<U extends T>(fn: (value: T) => value is U): SomeOption<U> | NoneOption;
+	public filter(fn: (value: T) => boolean): this | NoneOption;
+	public filter(fn: (value: T) => boolean): this | NoneOption {
+		return fn(this.value)
+			? this
+			: new NoneOption();
+	}
+
+	public and<U, O extends Option<U>>(option: O): O {
+		return option;
+	}
+
+	public andThen<U, O extends Option<U>>(fn: (value: T) => O): O {
+		return fn(this.value);
+	}
+
+	public or(): this {
+		return this;
+	}
+
+	public orElse(): this {
+		return this;
+	}
+
+	public xor(option: Option<T>): this | NoneOption {
+		return option.some
+			? new NoneOption()
+			: this;
+	}
+
+	public clone(): SomeOption<T> {
+		return new SomeOption(this.value);
+	}
+
+	public flatten(): T extends Option<unknown> ? T : this {
+		return Option.is(this.value)
+			? this.value as T extends Option<unknown> ? T : never
+			: this as T extends Option<unknown> ? never : this;
+	}
+
+	public transpose<U, E>(this: SomeOption<Result<U, E>>): Result<Option<U>, E> {
+		return this.value.ok
+			? new OkResult(new SomeOption(this.value.value))
+			: new ErrorResult(this.value.error);
+	}
+}
@@ -1,12 +1,28 @@
-import { and, error, flatten, from, is, isError, isOk, ok, or } from "./functions";
+import * as Async from "./async";
+import { all, and, attempt, bracket, collect, compare, error, flatten, from, fromJSON, fromNullable, gen, hash, is, isError, isNone, isOk, isOption, isSome, none, ok, option, or, parse, partition, promisify, report, revive, some, transpose, validate, wrap } from "./functions";
 import { ErrorResult } from "./impls/error";
+import { NoneOption } from "./impls/none";
 import { OkResult } from "./impls/ok";
+import type * as promise from "./impls/promise";
+import type * as types from "./internal/types";
 import { ResultPromise } from "./impls/promise";
+import { SomeOption } from "./impls/some";
 
 export const Result = {
 	Promise: ResultPromise,
 	Ok: OkResult,
 	Error: ErrorResult,
+	/**
+	 * Helpers for asynchronous streams of {@link Result}, such as async generators over paginated APIs.
+	 *
+	 * @see {@link Async.collect}
+	 * @see {@link Async.mapOk}
+	 * @see {@link Async.filterOk}
+	 * @see {@link Async.takeWhileOk}
+	 * @see {@link Async.partition}
+	 * @see {@link Async.forEach}
+	 */
+	Async,
 
 	/**
 	 * Creates variant of a {@link Result<T>} representing success and (usually) containing a value.
@@ -24,10 +40,44 @@ export const Result = {
 	 * Executes a function and wraps its result in a {@link Result}.
 	 * If the function executes successfully, the result is wrapped in a {@link Result.Ok}.
 	 * If the function throws an error, the error is wrapped in a {@link Result.Error}.
+	 * If the function returns a promise, a {@link Result.Promise} is returned instead.
 	 *
 	 * @see {@link from}
 	 */
 	from,
+	/**
+	 * Executes a function and wraps its result in a {@link Result}, mapping a thrown error to a typed error value.
+	 *
+	 * @see {@link attempt}
+	 */
+	attempt,
+	/**
+	 * Wraps a throwing function into a function with the same parameters, that returns a {@link Result} instead of throwing.
+	 *
+	 * @see {@link wrap}
+	 */
+	wrap,
+	/**
+	 * Acquires a resource, uses it, and always releases it afterwards,
+	 * even when using it returns a {@link Result.Error} or throws.
+	 *
+	 * @see {@link bracket}
+	 */
+	bracket,
+	/**
+	 * Wraps a function taking a Node.js-style callback as its last parameter into a function
+	 * that takes the other parameters, and returns a {@link Result.Promise} instead.
+	 *
+	 * @see {@link promisify}
+	 */
+	promisify,
+	/**
+	 * Creates a {@link Result} from a value that may be `null` or `undefined`,
+	 * using the given error value if it is.
+	 *
+	 * @see {@link fromNullable}
+	 */
+	fromNullable,
 	/**
 	 * Type guard that checks if a value is a {@link Result}.
 	 *
@@ -64,6 +114,33 @@ export const Result = {
 	 * @see {@link or}
 	 */
 	or,
+	/**
+	 * Combines a tuple, array or record of {@link Result} into a single {@link Result}
+	 * containing all values, or returns the first {@link Result.Error}.
+	 *
+	 * @see {@link all}
+	 */
+	all,
+	/**
+	 * Lazily collects the values of an iterable of {@link Result} into an array,
+	 * stopping at the first {@link Result.Error}.
+	 *
+	 * @see {@link collect}
+	 */
+	collect,
+	/**
+	 * Combines a tuple, array or record of {@link Result} into a single {@link Result}
+	 * containing all values, or all errors if any of them is a {@link Result.Error}.
+	 *
+	 * @see {@link validate}
+	 */
+	validate,
+	/**
+	 * Splits an iterable of {@link Result} into the success values and the error values.
+	 *
+	 * @see {@link partition}
+	 */
+	partition,
 	/**
 	 * Flattens a nested {@link Result}, converting it from {@link Result<Result<T, F>, E>} to {@link Result<T, E | F>}.
 	 *
@@ -72,7 +149,58 @@ export const Result = {
 	 *
 	 * @see {@link flatten}
 	 */
-	flatten
+	flatten,
+	/**
+	 * Compares two {@link Result} for sorting, ordering every {@link Result.Ok} before every {@link Result.Error}.
+	 *
+	 * @see {@link compare}
+	 */
+	compare,
+	/**
+	 * Computes a key for a {@link Result}, shared by structurally equal results, suitable for using results as `Map` keys.
+	 *
+	 * @see {@link hash}
+	 */
+	hash,
+	/**
+	 * Runs a generator function in "do-notation", where delegating to a {@link Result} with `yield* result.bind()`
+	 * evaluates to its success value, or short-circuits with its error.
+	 *
+	 * @see {@link gen}
+	 */
+	gen,
+	/**
+	 * Renders an error and its whole chain of causes (including aggregated errors),
+	 * as a multi-line string or as a structured report.
+	 *
+	 * @see {@link report}
+	 */
+	report,
+	/**
+	 * Revives a {@link Result} from its JSON shape, as produced by {@link Result.Ok.toJSON},
+	 * along with any results and errors nested within its value.
+	 *
+	 * @see {@link revive}
+	 */
+	revive,
+	/**
+	 * Revives the {@link Result} encoded by a JSON string, or by an already parsed value.
+	 *
+	 * @see {@link fromJSON}
+	 */
+	fromJSON,
+	/**
+	 * Validates an unknown value against a schema implementing the Standard Schema interface.
+	 *
+	 * @see {@link parse}
+	 */
+	parse,
+	/**
+	 * Transposes a {@link Result} of an {@link Option} into an {@link Option} of a {@link Result}.
+	 *
+	 * @see {@link transpose}
+	 */
+	transpose
 } as const;
 
 export namespace Result
@@ -80,6 +208,31 @@ export namespace Result
 	export type Promise<T=void, E=unknown> = ResultPromise<T, E>;
 	export type Ok<T=void> = OkResult<T>;
 	export type Error<E=unknown> = ErrorResult<E>;
+	export type Matcher<T, E, U, V=U> = types.Matcher<T, E, U, V>;
+	export type ErrorReport = types.ErrorReport;
+	export type JSON<T=unknown, E=unknown> = types.ResultJSON<T, E>;
+	export type ErrorJSON = types.ErrorJSON;
+	export type ErrorCodec<E extends globalThis.Error=globalThis.Error> = types.ErrorCodec<E>;
+	export type ReviveOptions = types.ReviveOptions;
+	export type FromOptions<E> = types.FromOptions<E>;
+	export type ValidateOptions = types.ValidateOptions;
+	export type Aggregated<E> = types.Aggregated<E>;
+	export type NodeCallback<T=void, E=globalThis.Error> = types.NodeCallback<T, E>;
+	export type AsyncResults<T, E> = types.AsyncResults<T, E>;
+	export type StandardSchema<Input=unknown, Output=Input> = types.StandardSchema<Input, Output>;
+	export type SchemaOutput<S extends StandardSchema> = types.SchemaOutput<S>;
+	export type SchemaIssue = types.SchemaIssue;
+	export type SchemaIssues = types.SchemaIssues;
+
+	export namespace Promise
+	{
+		export type AbortOptions = promise.AbortOptions;
+		export type TraverseOptions = promise.TraverseOptions;
+		export type RetryPolicy<E=unknown> = promise.RetryPolicy<E>;
+		export type RetryScheduler = promise.RetryScheduler;
+		export type Backoff = promise.Backoff;
+		export type OnceOptions = promise.OnceOptions;
+	}
 }
 
 /**
@@ -112,4 +265,86 @@ export namespace Result
  */
 export type Result<T=void, E=unknown> = Result.Ok<T> | Result.Error<E>;
 
+export const Option = {
+	Some: SomeOption,
+	None: NoneOption,
+
+	/**
+	 * Creates variant of an {@link Option<T>} that contains a value.
+	 *
+	 * @see {@link some}
+	 */
+	some,
+	/**
+	 * Creates variant of an {@link Option<T>} that contains no value.
+	 *
+	 * @see {@link none}
+	 */
+	none,
+	/**
+	 * Creates an {@link Option} from a value that may be `null` or `undefined`.
+	 * If the value is neither, it is wrapped in an {@link Option.Some}.
+	 * Otherwise, an {@link Option.None} is returned.
+	 *
+	 * @see {@link option}
+	 */
+	from: option,
+	/**
+	 * Type guard that checks if a value is an {@link Option}.
+	 *
+	 * @see {@link isOption}
+	 */
+	is: isOption,
+	/**
+	 * Type guard that checks if an option is an {@link Option.Some}.
+	 *
+	 * @see {@link isSome}
+	 */
+	isSome,
+	/**
+	 * Type guard that checks if an option is an {@link Option.None}.
+	 *
+	 * @see {@link isNone}
+	 */
+	isNone,
+	/**
+	 * Transposes an {@link Option} of a {@link Result} into a {@link Result} of an {@link Option}.
+	 *
+	 * @see {@link transpose}
+	 */
+	transpose
+} as const;
+
+export namespace Option
+{
+	export type Some<T> = SomeOption<T>;
+	export type None = NoneOption;
+}
+
+/**
+ * {@link Option} is a type that represents an optional value,
+ * used in place of `T | undefined` where the absence of a value should be handled explicitly.
+ *
+ * It has two variants, an {@link Option.Some}, containing a value,
+ * and an {@link Option.None}, containing no value.
+ *
+ * @template T The type of the contained value
+ *
+ * @example
+ * ```typescript
+ * function find(users: User[], id: string): Option<User>
+ * {
+ *   return Option.from(users.find(user => user.id === id));
+ * }
+ *
+ * const user = find(users, "42")
+ *   .map(user => user.name)
+ *   .unwrapOr("anonymous");
+ * ```
+ */
+export type Option<T> = Option.Some<T> | Option.None;
+
+export { AbortedError, ContextError, DecodeError, Defect, ReleaseError, TaggedError, TimeoutError } from "./errors";
+export type { Tagged, TaggedErrorConstructor } from "./errors";
+
 export default Result;
@@ -1,4 +1,6 @@
-import Result from "../../src";
+import Result, { ContextError, Option } from "../../src";
+import { asyncDisposeSymbol, disposeSymbol } from "./helpers";
+import { DisposeSymbol, ExcludeTag, Matcher, PromiseErrorType, PromiseOkType, ResultJSON, TagHandlers, TagOf } from "./types";
 
 export interface IResult<T, E> extends Iterable<T extends Iterable<infer U> ? U : T>
 {
@@ -81,7 +83,304 @@ export interface IResult<T, E> extends Iterable<T extends Iterable<infer U> ? U
 
 	clone(): Result<T, E>;
 
+	/**
+	 * Checks if another {@link Result} is the same variant and contains an equal value or error.
+	 *
+	 * By default, values are compared structurally: primitives with `Object.is`, and arrays, plain objects,
+	 * dates and nested {@link Result} or {@link Option} by their contents; any other object by identity.
+	 *
+	 * @method equals
+	 * @param {Result<unknown>} other The result to compare with
+	 * @param {(a: T | E, b: T | E) => boolean} [eq] The function comparing the values (or errors) of both results
+	 * @returns {boolean} Whether both results are equal
+	 *
+	 * @example
+	 * ```typescript
+	 * Result.ok([1, 2]).equals(Result.ok([1, 2])); // true
+	 * Result.ok(Result.error("failure")).equals(Result.ok(Result.error("failure"))); // true
+	 * Result.ok(user).equals(Result.ok(copy), (a, b) => a.id === b.id); // true
+	 * ```
+	 */
+	equals(other: Result<unknown>, eq?: (a: T | E, b: T | E) => boolean): boolean;
+
 	flatten(): T extends Result<unknown> ? T : this;
+
+	/**
+	 * Converts the result into an {@link Option} of its success value, discarding the error, if any.
+	 *
+	 * The name `ok()` is not used as it would collide with the {@link Result.Ok.ok} flag.
+	 *
+	 * @method toOption
+	 * @returns {Option<T>} An {@link Option.Some} with the success value if the result is a {@link Result.Ok}, or {@link Option.None} otherwise
+	 *
+	 * @example
+	 * ```typescript
+	 * console.log(Result.ok(2).toOption().some); // output: true
+	 * console.log(Result.error("hey").toOption().some); // output: false
+	 * ```
+	 */
+	toOption(): Option<T>;
+
+	/**
+	 * Converts the result into an {@link Option} of its error value, discarding the success value, if any.
+	 *
+	 * @method err
+	 * @returns {Option<E>} An {@link Option.Some} with the error value if the result is a {@link Result.Error}, or {@link Option.None} otherwise
+	 *
+	 * @example
+	 * ```typescript
+	 * console.log(Result.ok(2).err().some); // output: false
+	 * console.log(Result.error("hey").err().some); // output: true
+	 * ```
+	 */
+	err(): Option<E>;
+
+	transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>>;
+
+	/**
+	 * Returns a generator to be delegated to with `yield*` inside {@link Result.gen} or {@link Result.Promise.gen}.
+	 *
+	 * Delegating evaluates to the success value if the result is a {@link Result.Ok},
+	 * or short-circuits the enclosing generator with the error if the result is a {@link Result.Error}.
+	 *
+	 * Iterating a result directly yields its contained value(s) instead, so this adapter is required for early returns.
+	 *
+	 * @method bind
+	 * @returns {Generator<Result.Error<E>, T, unknown>} A generator that returns the success value, or yields the error result
+	 *
+	 * @example
+	 * ```typescript
+	 * const sum = Result.gen(function *() {
+	 *   const a = yield* parse("1").bind();
+	 *   const b = yield* parse("2").bind();
+	 *
+	 *   return a + b;
+	 * });
+	 * ```
+	 */
+	bind(): Generator<Result.Error<E>, T, unknown>;
+
+	/**
+	 * Calls the handler matching the variant of the result, and returns its value.
+	 *
+	 * The error handler may be a single function, or, if the error is a union of tagged errors
+	 * (discriminated by a `_tag` field), an object with one handler per tag.
+	 * In the latter case, every tag must be handled.
+	 *
+	 * @method match
+	 * @template U The type returned by the success handler
+	 * @template V The type returned by the error handler(s)
+	 * @param {Matcher<T, E, U, V>} matcher The handlers for each variant
+	 * @returns {U | V} The value returned by the matching handler
+	 *
+	 * @example
+	 * ```typescript
+	 * const message = result.match({
+	 *   ok: user => `hello ${user.name}`,
+	 *   error: error => `failed: ${error}`
+	 * });
+	 *
+	 * const status = result.match({
+	 *   ok: () => 200,
+	 *   error: {
+	 *     NotFound: () => 404,
+	 *     Conflict: () => 409
+	 *   }
+	 * });
+	 * ```
+	 */
+	match<U, V = U>(matcher: Matcher<T, E, U, V>): U | V;
+
+	/**
+	 * Recovers from the errors of a tagged error union with the given `_tag`, calling a function with the error
+	 * if the result is a {@link Result.Error} with that tag, and returning the result unchanged otherwise.
+	 *
+	 * The handled errors are removed from the error type of the returned result.
+	 *
+	 * @method catchTag
+	 * @template K The tag of the errors to handle
+	 * @template R The type of the result returned by the handler
+	 * @param {K} tag The tag of the errors to handle
+	 * @param {(error: Extract<E, { readonly _tag: K }>) => R} fn The handler for the errors with the tag
+	 * @returns {this | Result.Error<ExcludeTag<E, K>> | R} The result unchanged, or the result returned by the handler
+	 *
+	 * @example
+	 * ```typescript
+	 * const result: Result<User, NotFound | DbError> = findUser(id);
+	 *
+	 * const recovered = result.catchTag("NotFound", () => Result.ok(guest)); // Result<User, DbError>
+	 * ```
+	 */
+	catchTag<K extends TagOf<E>, R extends Result<unknown>>(tag: K, fn: (error: Extract<E, { readonly _tag: K }>) => R): this | Result.Error<ExcludeTag<E, K>> | R;
+
+	/**
+	 * Recovers from several errors of a tagged error union at once, with one handler per `_tag`.
+	 * Errors whose tag has no handler are returned unchanged.
+	 *
+	 * The handled errors are removed from the error type of the returned result.
+	 *
+	 * @method catchTags
+	 * @template H The type of the handlers
+	 * @param {H} handlers The handlers for each tag to handle
+	 * @returns {this | Result.Error<ExcludeTag<E, keyof H>> | ReturnType<NonNullable<H[keyof H]>>} The result unchanged, or the result returned by the matching handler
+	 *
+	 * @example
+	 * ```typescript
+	 * const result: Result<User, NotFound | Conflict | DbError> = saveUser(user);
+	 *
+	 * const recovered = result.catchTags({
+	 *   NotFound: () => Result.ok(guest),
+	 *   Conflict: error => Result.error(error.message)
+	 * }); // Result<User, DbError | string>
+	 * ```
+	 */
+	catchTags<H extends TagHandlers<E, Result<unknown>>>(handlers: H): this | Result.Error<ExcludeTag<E, keyof H>> | ReturnType<NonNullable<H[keyof H]>>;
+
+	/**
+	 * Wraps the error of a {@link Result.Error} in a {@link ContextError} describing what was being done,
+	 * keeping the original error as its `cause`. A {@link Result.Ok} is returned unchanged.
+	 *
+	 * @method context
+	 * @param {string} context The description of what was being done
+	 * @returns {Result<T, ContextError<E>>} The result unchanged, or a {@link Result.Error} with the wrapped error
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = findUser(id).context(`loading user ${id}`); // Result<User, ContextError<NotFound>>
+	 *
+	 * if (!user.ok)
+	 * {
+	 *   console.error(Result.report(user.error));
+	 *   // ContextError: loading user 42
+	 *   //   caused by: NotFound: user 42 not found
+	 * }
+	 * ```
+	 */
+	context(context: string): Result<T, ContextError<E>>;
+
+	withContext(fn: (error: E) => string): Result<T, ContextError<E>>;
+
+	/**
+	 * Encodes the result into its versioned JSON shape, so it can be sent over the wire and revived with {@link Result.revive}.
+	 * Errors contained in (or nested within plain objects and arrays of) the result are encoded with their
+	 * name, message, stack, cause and own enumerable fields.
+	 *
+	 * Called implicitly by `JSON.stringify`.
+	 *
+	 * @method toJSON
+	 * @returns {ResultJSON} The JSON shape of the result
+	 *
+	 * @example
+	 * ```typescript
+	 * JSON.stringify(Result.ok(42)); // '{"$result":1,"ok":true,"value":42}'
+	 *
+	 * const message = structuredClone(Result.error(new Error("failure")).toJSON());
+	 * const result = Result.revive(message).flatten(); // Result<unknown, unknown>
+	 * ```
+	 */
+	toJSON(): ResultJSON;
+
+	/**
+	 * Disposes the success value, if it is disposable, so that a `using` declaration of a result releases its resource.
+	 * Does nothing for a {@link Result.Error}.
+	 *
+	 * @example
+	 * ```typescript
+	 * {
+	 *   using file = openFile(path); // Result<FileHandle, OpenError>
+	 *   // ...
+	 * } // file.value[Symbol.dispose]() has been called, if the file was opened
+	 * ```
+	 */
+	[disposeSymbol](): void;
+
+	/**
+	 * Disposes the success value, if it is disposable, so that an `await using` declaration of a result releases its resource.
+	 * Prefers the `Symbol.asyncDispose` method of the value over its `Symbol.dispose` method. Does nothing for a {@link Result.Error}.
+	 */
+	[asyncDisposeSymbol](): Promise<void>;
+}
+
+export interface IOption<T> extends Iterable<T extends Iterable<infer U> ? U : T>
+{
+	/**
+	 * Returns `true` if the option is a {@link Option.Some} and the contained value matches a predicate.
+	 *
+	 * @method isSomeAnd
+	 * @template U A more specific type that extends T, used with the type predicate overload
+	 * @param {((value: T) => value is U) | ((value: T) => boolean)} fn A type predicate function that checks the contained value, if the option is a {@link Option.Some}
+	 * @returns {boolean} `true` if the option is {@link Option.Some} and the contained value matches the predicate, or `false` otherwise
+	 *
+	 * @example
+	 * ```typescript
+	 * const option = Option.some(2);
+	 * console.log(option.isSomeAnd(value => value > 1)); // output: true
+	 *
+	 * const none = Option.none();
+	 * console.log(none.isSomeAnd(value => value > 1)); // output: false
+	 * ```
+	 */
+	isSomeAnd<U extends T>(fn: (value: T) => value is U): this is Option.Some<U>;
+	isSomeAnd(fn: (value: T) => boolean): this is Option.Some<T>;
+
+	isNoneOr(fn: (value: T) => boolean): boolean;
+
+	map<U>(fn: (value: T) => U): Option<U>;
+
+	mapOr<U>(defaultValue: U, fn: (value: T) => U): U;
+
+	mapOrElse<U>(defaultValue: () => U, fn: (value: T) => U): U;
+
+	inspect(fn: (value: T) => void): this;
+
+	values(): Generator<T extends Iterable<infer U> ? U : T>;
+
+	forEach(fn: (value: T extends Iterable<infer U> ? U : T) => void): void;
+
+	expect(msg: string): T;
+
+	unwrap(): T;
+
+	unwrapOr(defaultValue: T): T;
+
+	unwrapOrElse(defaultValue: () => T): T;
+
+	/**
+	 * Converts the option into a {@link Result}, using the given error value if the option is {@link Option.None}.
+	 *
+	 * @method okOr
+	 * @template E The type of the error value
+	 * @param {E} error The error value to use if the option is {@link Option.None}
+	 * @returns {Result<T, E>} A {@link Result.Ok} with the contained value, or a {@link Result.Error} with the given error
+	 *
+	 * @example
+	 * ```typescript
+	 * console.log(Option.some(2).okOr("missing").ok); // output: true
+	 * console.log(Option.none().okOr("missing").ok); // output: false
+	 * ```
+	 */
+	okOr<E>(error: E): Result<T, E>;
+
+	okOrElse<E>(fn: () => E): Result<T, E>;
+
+	filter<U extends T>(fn: (value: T) => value is U): Option<U>;
+	filter(fn: (value: T) => boolean): Option<T>;
+
+	and<U>(option: Option<U>): this | Option<U>;
+
+	andThen<U>(fn: (value: T) => Option<U>): this | Option<U>;
+
+	or(option: Option<T>): this | Option<T>;
+
+	orElse(fn: () => Option<T>): this | Option<T>;
+
+	xor(option: Option<T>): Option<T>;
+
+	clone(): Option<T>;
+
+	flatten(): T extends Option<unknown> ? T : this;
+
+	transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E>;
 }
 
 export interface IResultAsync<T, E>
@@ -98,3 +397,94 @@ export interface IResultAsync<T, E>
 	orElseAsync<F, P extends Result.Promise<T, F>>(fn: (err: E) => P): P;
 	orElseAsync<F>(fn: (err: E) => PromiseLike<Result<T, F>>): Result.Promise<T, F>;
 }
+
+/**
+ * The members of {@link IResult} that only make sense synchronously, and have no counterpart on {@link Result.Promise}.
+ */
+type SyncOnly = typeof Symbol.iterator | DisposeSymbol | "toJSON";
+
+/**
+ * The asynchronous counterpart of {@link IResult}, implemented by {@link Result.Promise}.
+ *
+ * Every member of {@link IResult} (except the {@link SyncOnly} ones) is a required member of this interface,
+ * so a new {@link IResult} operation does not compile until it is mirrored on {@link Result.Promise}.
+ *
+ * Callbacks may return promises, which are awaited before continuing,
+ * and operations that unwrap or inspect the {@link Result} return a native promise instead.
+ */
+export interface IResultPromise<T, E> extends Record<Exclude<keyof IResult<unknown, unknown>, SyncOnly>, unknown>
+{
+	isOkAnd(fn: (value: T) => boolean | PromiseLike<boolean>): Promise<boolean>;
+
+	isErrorAnd(fn: (error: E) => boolean | PromiseLike<boolean>): Promise<boolean>;
+
+	map<U>(fn: (value: T) => Result<U, E> | Result.Promise<U, E>): Result.Promise<U, E>;
+	map<U>(fn: (value: T) => U | PromiseLike<U>): Result.Promise<U, never>;
+
+	mapOr<U>(defaultValue: U, fn: (value: T) => U | PromiseLike<U>): Promise<U>;
+
+	mapOrElse<U, F>(defaultValue: (err: E) => Result<U, F> | Result.Promise<U, F>, fn: (value: T) => Result<U, F> | Result.Promise<U, F>): Result.Promise<U, F>;
+	mapOrElse<U, F>(defaultValue: (err: E) => U | Result<U, F> | Result.Promise<U, F> | PromiseLike<U>, fn: (value: T) => U | Result<U, F> | Result.Promise<U, F> | PromiseLike<U>): Result.Promise<U, F>;
+	mapOrElse<U>(defaultValue: (err: E) => U | PromiseLike<U>, fn: (value: T) => U | PromiseLike<U>): Result.Promise<U, never>;
+
+	mapErr<F>(fn: (err: E) => F | PromiseLike<F>): Result.Promise<T, F>;
+
+	inspect(fn: (value: T) => unknown): Result.Promise<T, E>;
+
+	inspectError(fn: (err: E) => unknown): Result.Promise<T, E>;
+
+	values(): AsyncGenerator<T extends AsyncIterable<infer U> | Iterable<infer U> ? U : T, void, undefined>;
+
+	forEach(fn: (value: T extends AsyncIterable<infer U> | Iterable<infer U> ? U : T) => unknown): Promise<void>;
+
+	expect(msg: string): Promise<T>;
+	expect(fn: (err: E) => never): Promise<T>;
+
+	unwrap(): Promise<T>;
+
+	unwrapOr(defaultValue: T): Promise<T>;
+
+	unwrapOrElse(defaultValue: (err: E) => T | PromiseLike<T>): Promise<T>;
+
+	unwrapError(fn?: (value: T) => E): Promise<E>;
+
+	and<U>(result: Result<U, E> | Result.Promise<U, E>): Result.Promise<U, E>;
+
+	andThen<U>(fn: (value: T) => Result<U, E> | Result.Promise<U, E>): Result.Promise<U, E>;
+	andThen<U>(fn: (value: T) => U | PromiseLike<U>): Result.Promise<U, never>;
+
+	or<F>(result: Result<T, F> | Result.Promise<T, F>): Result.Promise<T, F>;
+
+	orElse<F>(fn: (err: E) => Result<T, F> | Result.Promise<T, F>): Result.Promise<T, F>;
+	orElse(fn: (err: E) => T | PromiseLike<T>): Result.Promise<T>;
+
+	clone(): Result.Promise<T, E>;
+
+	equals(other: Result<unknown> | Result.Promise<unknown>, eq?: (a: T | E, b: T | E) => boolean): Promise<boolean>;
+
+	flatten(): [T] extends [Result<unknown> | Result.Promise<unknown>] ? Result.Promise<PromiseOkType<T>, E | PromiseErrorType<T>> : Result.Promise<T, E>;
+
+	toOption(): Promise<Option<T>>;
+
+	err(): Promise<Option<E>>;
+
+	transpose<U>(this: Result.Promise<Option<U>, E>): Promise<Option<Result<U, E>>>;
+
+	bind(): Generator<this, T, T>;
+
+	match<U, V = U>(matcher: Matcher<T, E, U | PromiseLike<U>, V | PromiseLike<V>>): Promise<U | V>;
+
+	catchTag<K extends TagOf<E>, U, F = never>(tag: K, fn: (error: Extract<E, { readonly _tag: K }>) => Result<U, F> | Result.Promise<U, F>): Result.Promise<T | U, ExcludeTag<E, K> | F>;
+
+	catchTags<H extends TagHandlers<E, Result<unknown> | Result.Promise<unknown>>>(handlers: H): Result.Promise<T | PromiseOkType<ReturnType<NonNullable<H[keyof H]>>>, ExcludeTag<E, keyof H> | PromiseErrorType<ReturnType<NonNullable<H[keyof H]>>>>;
+
+	context(context: string): Result.Promise<T, ContextError<E>>;
+
+	withContext(fn: (error: E) => string): Result.Promise<T, ContextError<E>>;
+
+	/**
+	 * Disposes the success value once the promise resolves, if it is disposable. Does nothing if the promise rejects,
+	 * as no resource was acquired.
+	 */
+	[asyncDisposeSymbol](): Promise<void>;
+}
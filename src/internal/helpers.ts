@@ -1,3 +1,7 @@
+import Result, { Option } from "..";
+import { ReleaseError } from "../errors";
+import { Aggregated, AsyncDisposableResource, AsyncDisposeSymbol, Attempt, DisposableResource, DisposeSymbol, ErrorMatcher, Inspect, InspectOptions, SchemaIssues, StandardIssue } from "./types";
+
 /**
  * Internal utility function for determining if a given `value` is a "thenable" (i.e. a Promise-like object).
  *
@@ -19,3 +23,427 @@ export function isIterable<T = unknown>(value: unknown): value is Iterable<T> {
 	return value instanceof Object &&
 		(value as Iterable<T>)[Symbol.iterator] instanceof Function;
 }
+
+/**
+ * Internal utility function for determining if a given `value` is an asynchronous iterable object.
+ *
+ * @param {unknown} value The value to check.
+ * @returns {value is AsyncIterable<unknown>} Whether or not the given `value` is an asynchronous iterable object.
+ */
+export function isAsyncIterable<T = unknown>(value: unknown): value is AsyncIterable<T> {
+	return value instanceof Object &&
+		(value as AsyncIterable<T>)[Symbol.asyncIterator] instanceof Function;
+}
+
+/**
+ * Internal utility function for listing the entries of an array or record, in iteration order.
+ * Array entries are keyed by their index, and record entries by their own (string or symbol) keys.
+ *
+ * @param {readonly T[] | Readonly<Record<PropertyKey, T>>} collection The array or record to list the entries of.
+ * @returns {[PropertyKey, T][]} The key and value of each entry in the collection.
+ */
+export function entriesOf<T>(collection: readonly T[] | Readonly<Record<PropertyKey, T>>): [PropertyKey, T][] {
+	if (Array.isArray(collection)) {
+		return (collection as readonly T[]).map((value, index) => [index, value]);
+	}
+
+	const record = collection as Readonly<Record<PropertyKey, T>>;
+
+	return Reflect.ownKeys(record).map(key => [key, record[key]]);
+}
+
+/**
+ * Internal utility function for calling the handler of an error, which is either a single function
+ * or an {@link ErrorMatcher} with a handler for each `_tag` of the error union.
+ *
+ * @param {((error: E) => V) | ErrorMatcher<E, V>} handler The handler(s) for the error.
+ * @param {E} error The error to handle.
+ * @returns {V} The value returned by the matching handler.
+ */
+export function matchError<E, V>(handler: ((error: E) => V) | ErrorMatcher<E, V>, error: E): V {
+	if (handler instanceof Function) {
+		return handler(error);
+	}
+
+	const tag = (error as { readonly _tag: PropertyKey })._tag;
+
+	return (handler as Record<PropertyKey, (error: E) => V>)[tag](error);
+}
+
+/**
+ * Internal utility function for determining if a given `error` is tagged with the given `_tag` discriminant.
+ *
+ * @param {unknown} error The error to check.
+ * @param {PropertyKey} tag The expected tag.
+ * @returns {boolean} Whether or not the given `error` has the given tag.
+ */
+export function isTagged(error: unknown, tag: PropertyKey): boolean {
+	return typeof error === "object" && error !== null &&
+		(error as { readonly _tag?: unknown })._tag === tag;
+}
+
+/**
+ * Internal utility function for finding the handler for the `_tag` of an error, if it has one.
+ *
+ * @param {object} handlers The handlers for each tag.
+ * @param {unknown} error The error to find the handler for.
+ * @returns {((error: unknown) => unknown) | undefined} The handler for the tag of the error, if any.
+ */
+export function findTagHandler(handlers: object, error: unknown): ((error: unknown) => unknown) | undefined {
+	if (typeof error !== "object" || error === null) {
+		return undefined;
+	}
+
+	const tag = (error as { readonly _tag?: unknown })._tag;
+	if (typeof tag !== "string" || !Object.prototype.hasOwnProperty.call(handlers, tag)) {
+		return undefined;
+	}
+
+	return (handlers as Readonly<Record<string, ((error: unknown) => unknown) | undefined>>)[tag];
+}
+
+/**
+ * Internal utility function for normalizing the issues reported by a Standard Schema validator,
+ * unwrapping their path segments and defaulting their path to the root.
+ *
+ * @param {readonly StandardIssue[]} issues The issues reported by the validator.
+ * @returns {SchemaIssues} The normalized issues.
+ */
+export function normalizeIssues(issues: readonly StandardIssue[]): SchemaIssues {
+	return issues.map(({ message, path = [] }) => ({
+		message,
+		path: path.map(segment => typeof segment === "object"
+			? segment.key
+			: segment)
+	}));
+}
+
+/**
+ * Internal utility function for aggregating errors into a native `AggregateError`,
+ * looked up at runtime as it is not part of the ES2015 library.
+ *
+ * @param {E[]} errors The errors to aggregate.
+ * @param {string} message The message of the `AggregateError`.
+ * @returns {Aggregated<E>} The `AggregateError`.
+ */
+export function aggregate<E>(errors: E[], message: string): Aggregated<E> {
+	const { AggregateError } = globalThis as unknown as { readonly AggregateError: new(errors: E[], message: string) => Aggregated<E> };
+
+	return new AggregateError(errors, message);
+}
+
+/**
+ * Internal utility function for determining if a given object is compared by its contents rather than by its identity,
+ * i.e. if it is an array, a plain object, a {@link Result} or an {@link Option}.
+ *
+ * @param {object} value The object to check.
+ * @returns {boolean} Whether or not the given object is compared by its contents.
+ */
+function isStructural(value: object): boolean {
+	const prototype: unknown = Object.getPrototypeOf(value);
+
+	return Array.isArray(value) ||
+		prototype === Object.prototype ||
+		prototype === null ||
+		Result.is(value) ||
+		Option.is(value);
+}
+
+/**
+ * Internal utility function for comparing two values structurally: primitives with `Object.is`,
+ * arrays, plain objects, {@link Result} and {@link Option} by their own enumerable entries, dates by their time,
+ * and any other object by identity. A pair of objects met again while being compared is assumed to be equal.
+ *
+ * @param {unknown} a The first value.
+ * @param {unknown} b The second value.
+ * @param {Map<object, Set<object>>} seen The pairs of objects being compared, to guard against cycles.
+ * @returns {boolean} Whether or not both values are structurally equal.
+ */
+export function deepEqual(a: unknown, b: unknown, seen = new Map<object, Set<object>>()): boolean {
+	if (Object.is(a, b)) {
+		return true;
+	}
+
+	if (typeof a !== "object" || typeof b !== "object" || a === null || b === null ||
+		Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+		return false;
+	}
+
+	if (a instanceof Date) {
+		return a.getTime() === (b as Date).getTime();
+	}
+
+	if (!isStructural(a)) {
+		return false;
+	}
+
+	let pairs = seen.get(a);
+	if (pairs?.has(b)) {
+		return true;
+	}
+
+	if (!pairs) {
+		pairs = new Set();
+		seen.set(a, pairs);
+	}
+
+	pairs.add(b);
+
+	const keys = Object.keys(a);
+	const equal = keys.length === Object.keys(b).length &&
+		keys.every(key => Object.prototype.hasOwnProperty.call(b, key) &&
+			deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], seen));
+
+	pairs.delete(b);
+
+	return equal;
+}
+
+const identities = new WeakMap<object, number>();
+let nextIdentity = 0;
+
+/**
+ * Internal utility function for rendering a value into a canonical string, such that structurally equal values
+ * (as compared by {@link deepEqual}) render identically. Objects compared by identity render as a unique identifier.
+ * Registered symbols render by their key, but other symbols only render by their description, so that distinct symbols
+ * with the same description render identically.
+ *
+ * @param {unknown} value The value to render.
+ * @param {Set<unknown>} seen The objects being rendered, to guard against cycles.
+ * @returns {string} The canonical string of the value.
+ */
+export function canonicalize(value: unknown, seen: Set<unknown>): string {
+	switch (typeof value) {
+	case "string":
+		return JSON.stringify(value);
+	case "bigint":
+		return String(value) + "n";
+	case "number":
+		return Object.is(value, -0)
+			? "-0"
+			: String(value);
+	case "symbol": {
+		const key = Symbol.keyFor(value);
+
+		return key === undefined
+			? String(value)
+			: "Symbol.for(" + JSON.stringify(key) + ")";
+	}
+	case "object":
+	case "function":
+		break;
+	default:
+		return String(value);
+	}
+
+	if (value === null) {
+		return "null";
+	}
+
+	if (seen.has(value)) {
+		return "[Circular]";
+	}
+
+	if (value instanceof Date) {
+		return "Date(" + String(value.getTime()) + ")";
+	}
+
+	if (typeof value === "function" || !isStructural(value)) {
+		let identity = identities.get(value);
+		if (identity === undefined) {
+			identity = nextIdentity++;
+			identities.set(value, identity);
+		}
+
+		return "#" + String(identity);
+	}
+
+	seen.add(value);
+
+	const rendered = Array.isArray(value)
+		? "[" + value.map(item => canonicalize(item, seen)).join(",") + "]"
+		: "{" + Object.keys(value).
+			sort().
+			map(key => JSON.stringify(key) + ":" + canonicalize((value as Record<string, unknown>)[key], seen)).
+			join(",") + "}";
+
+	seen.delete(value);
+
+	return Result.is(value)
+		? "Result" + rendered
+		: Option.is(value)
+			? "Option" + rendered
+			: rendered;
+}
+
+/**
+ * The symbol through which Node.js `util.inspect` finds custom inspection functions,
+ * registered globally so that it is available without importing `node:util`.
+ */
+export const inspectSymbol: unique symbol = Symbol.for("nodejs.util.inspect.custom") as never;
+
+/**
+ * Internal utility function for rendering a value contained in a {@link Result} for display:
+ * strings are quoted, errors render as `name: message`, arrays render their elements,
+ * and plain objects render as JSON.
+ *
+ * @param {unknown} value The value to render.
+ * @returns {string} The rendered value.
+ */
+export function display(value: unknown): string {
+	if (typeof value === "string") {
+		return JSON.stringify(value);
+	}
+
+	if (typeof value !== "object" || value === null) {
+		return String(value);
+	}
+
+	if (Array.isArray(value)) {
+		return "[" + value.map(display).join(", ") + "]";
+	}
+
+	if (value.toString !== Object.prototype.toString) {
+		return (value as { toString(): string }).toString();
+	}
+
+	try {
+		return JSON.stringify(value);
+	} catch {
+		return Object.prototype.toString.call(value);
+	}
+}
+
+/**
+ * Internal utility function for rendering a labelled value, such as `Ok(42)`, for Node.js `util.inspect`,
+ * respecting the depth and colors of the inspection options. Errors render as `name: message` rather than with their stack.
+ *
+ * @param {string} label The label wrapping the value.
+ * @param {unknown} value The value to render.
+ * @param {number} depth The remaining depth of the inspection.
+ * @param {InspectOptions} options The inspection options.
+ * @param {Inspect} [inspect] The `util.inspect` function, if passed by Node.js.
+ * @returns {string} The rendered value.
+ */
+export function inspectLabelled(label: string, value: unknown, depth: number, options: InspectOptions, inspect?: Inspect): string {
+	if (depth < 0) {
+		return options.stylize("[" + label + "]", "special");
+	}
+
+	const inner = value instanceof Error
+		? options.stylize(String(value), "special")
+		: inspect
+			? inspect(value, { ...options, depth: typeof options.depth === "number" ? options.depth - 1 : options.depth })
+			: display(value);
+
+	return options.stylize(label, "special") + "(" + inner.replace(/\n/g, "\n" + " ".repeat(label.length + 1)) + ")";
+}
+
+/**
+ * The symbol through which `using` declarations find the dispose method of a resource,
+ * falling back to the well-known name used by TypeScript on runtimes without explicit resource management.
+ */
+export const disposeSymbol: DisposeSymbol = ((Symbol as { readonly dispose?: symbol }).dispose ?? Symbol.for("Symbol.dispose")) as DisposeSymbol;
+
+/**
+ * The symbol through which `await using` declarations find the asynchronous dispose method of a resource,
+ * falling back to the well-known name used by TypeScript on runtimes without explicit resource management.
+ */
+export const asyncDisposeSymbol: AsyncDisposeSymbol = ((Symbol as { readonly asyncDispose?: symbol }).asyncDispose ?? Symbol.for("Symbol.asyncDispose")) as AsyncDisposeSymbol;
+
+/**
+ * Internal utility function for determining if a given `value` is a {@link DisposableResource}.
+ *
+ * @param {unknown} value The value to check.
+ * @returns {value is DisposableResource} Whether or not the given `value` has a dispose method.
+ */
+export function isDisposable(value: unknown): value is DisposableResource {
+	return value instanceof Object &&
+		(value as DisposableResource)[disposeSymbol] instanceof Function;
+}
+
+/**
+ * Internal utility function for determining if a given `value` is an {@link AsyncDisposableResource}.
+ *
+ * @param {unknown} value The value to check.
+ * @returns {value is AsyncDisposableResource} Whether or not the given `value` has an asynchronous dispose method.
+ */
+export function isAsyncDisposable(value: unknown): value is AsyncDisposableResource {
+	return value instanceof Object &&
+		(value as AsyncDisposableResource)[asyncDisposeSymbol] instanceof Function;
+}
+
+/**
+ * Internal utility function for calling a function, capturing the error it throws, if any.
+ *
+ * @param {() => T} fn The function to call.
+ * @returns {Attempt<T>} The value returned by the function, or the error it threw.
+ */
+export function capture<T>(fn: () => T): Attempt<T> {
+	try {
+		return { threw: false, value: fn() };
+	} catch (reason: unknown) {
+		return { threw: true, reason };
+	}
+}
+
+/**
+ * Internal utility function for calling a function and awaiting the promise it returns, if any,
+ * capturing the error it throws or the reason it rejects with.
+ *
+ * @param {() => T | PromiseLike<T>} fn The function to call.
+ * @returns {Promise<Attempt<T>>} A promise of the value returned by the function, or of the error it threw.
+ */
+export async function captureAsync<T>(fn: () => T | PromiseLike<T>): Promise<Attempt<T>> {
+	try {
+		return { threw: false, value: await fn() };
+	} catch (reason: unknown) {
+		return { threw: true, reason };
+	}
+}
+
+/**
+ * Internal utility function for completing a bracket, combining the outcome of using a resource with the outcome of releasing it.
+ *
+ * If releasing succeeds, the outcome of using the resource is kept. If releasing fails, by returning a {@link Result.Error}
+ * or by throwing, the failure is combined with the failure to use the resource, if any, into a {@link ReleaseError}.
+ * The outcome is thrown if either call threw, even if the other one returned a {@link Result.Error},
+ * and returned as a {@link Result} otherwise.
+ *
+ * @param {Attempt<Result<T, F>>} used The outcome of using the resource.
+ * @param {Attempt<unknown>} released The outcome of releasing the resource.
+ * @returns {Result<T, F | G | ReleaseError<F, G>>} The combined outcome.
+ */
+export function completeBracket<T, F, G>(used: Attempt<Result<T, F>>, released: Attempt<unknown>): Result<T, F | G | ReleaseError<F, G>> {
+	const failed = released.threw || released.value instanceof Result.Error;
+	if (!failed) {
+		if (used.threw) {
+			throw used.reason;
+		}
+
+		return used.value;
+	}
+
+	const failure = (released.threw
+		? released.reason
+		: (released.value as Result.Error<G>).error) as G;
+
+	if (!used.threw && used.value.ok) {
+		if (released.threw) {
+			throw failure;
+		}
+
+		return Result.error(failure);
+	}
+
+	const primary = used.threw
+		? used.reason as F
+		: (used.value as Result.Error<F>).error;
+
+	const combined = new ReleaseError(primary, failure);
+	if (used.threw || released.threw) {
+		throw combined;
+	}
+
+	return Result.error(combined);
+}
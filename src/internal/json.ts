@@ -0,0 +1,200 @@
+import { DecodeError } from "../errors";
+import { ErrorResult } from "../impls/error";
+import { OkResult } from "../impls/ok";
+import { ErrorCodec, ErrorJSON, JSONVersion, ResultJSON } from "./types";
+
+/**
+ * The current version of the JSON shape of results and errors.
+ */
+export const JSON_VERSION: JSONVersion = 1;
+
+const ERROR_KEYS: readonly string[] = ["name", "message", "stack", "cause"];
+
+/**
+ * Internal utility function for determining if a given `value` is an {@link Error}, including errors from other realms.
+ *
+ * @param {unknown} value The value to check.
+ * @returns {value is Error} Whether or not the given `value` is an {@link Error}.
+ */
+function isError(value: unknown): value is Error {
+	return value instanceof Error ||
+		Object.prototype.toString.call(value) === "[object Error]";
+}
+
+/**
+ * Internal utility function for determining if a given `value` is a plain object or array, whose entries should be walked.
+ *
+ * @param {unknown} value The value to check.
+ * @returns {value is Record<string, unknown>} Whether or not the given `value` is a plain object or array.
+ */
+function isPlain(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+
+	const prototype: unknown = Object.getPrototypeOf(value);
+
+	return Array.isArray(value) ||
+		prototype === Object.prototype ||
+		prototype === null;
+}
+
+/**
+ * Internal utility function for mapping the own enumerable string-keyed entries of a plain object or array.
+ *
+ * @param {Record<string, unknown>} value The object or array to map.
+ * @param {(value: unknown) => unknown} fn The function to map each entry with.
+ * @returns {unknown} A new object or array with the mapped entries.
+ */
+function mapEntries(value: Record<string, unknown>, fn: (value: unknown) => unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(fn);
+	}
+
+	const mapped: Record<string, unknown> = {};
+
+	for (const key of Object.keys(value)) {
+		mapped[key] = fn(value[key]);
+	}
+
+	return mapped;
+}
+
+/**
+ * Internal utility function for encoding a value contained in a result into its JSON shape.
+ * Errors are encoded as {@link ErrorJSON}, and plain objects and arrays are walked for nested errors.
+ * Other values, including nested results, are left to `JSON.stringify` (and their own `toJSON` method, if any).
+ * An error, object or array met again while being encoded, such as an error being its own cause, is encoded as `"[Circular]"`.
+ *
+ * @param {unknown} value The value to encode.
+ * @param {Set<unknown>} seen The errors, objects and arrays being encoded, to guard against cycles.
+ * @returns {unknown} The encoded value.
+ */
+export function encodeValue(value: unknown, seen = new Set<unknown>()): unknown {
+	if (!isError(value) && !isPlain(value)) {
+		return value;
+	}
+
+	if (seen.has(value)) {
+		return "[Circular]";
+	}
+
+	seen.add(value);
+
+	const encoded = isError(value)
+		? encodeError(value, seen)
+		: mapEntries(value, entry => encodeValue(entry, seen));
+
+	seen.delete(value);
+
+	return encoded;
+}
+
+function encodeError(error: Error, seen: Set<unknown>): ErrorJSON {
+	const fields: Record<string, unknown> = {};
+
+	for (const key of Object.keys(error)) {
+		if (!ERROR_KEYS.includes(key)) {
+			fields[key] = encodeValue((error as unknown as Record<string, unknown>)[key], seen);
+		}
+	}
+
+	const { cause } = error as { readonly cause?: unknown };
+
+	return {
+		$error: JSON_VERSION,
+		name: error.name,
+		message: error.message,
+		...typeof error.stack === "string" && { stack: error.stack },
+		..."cause" in error && { cause: encodeValue(cause, seen) },
+		fields
+	};
+}
+
+/**
+ * Internal utility function for determining if a given `value` has the JSON shape of a result, regardless of its version.
+ *
+ * @param {unknown} value The value to check.
+ * @returns {value is ResultJSON} Whether or not the given `value` has the JSON shape of a result.
+ */
+export function isResultJSON(value: unknown): value is ResultJSON {
+	return isPlain(value) &&
+		"$result" in value &&
+		typeof value.ok === "boolean" &&
+		(value.ok ? "value" : "error") in value;
+}
+
+function isErrorJSON(value: unknown): value is ErrorJSON {
+	return isPlain(value) &&
+		"$error" in value &&
+		typeof value.name === "string" &&
+		typeof value.message === "string" &&
+		isPlain(value.fields);
+}
+
+/**
+ * Internal utility function for reviving a result from its JSON shape, along with any results and errors nested within.
+ *
+ * @param {ResultJSON} json The JSON shape of the result.
+ * @param {readonly ErrorCodec[]} codecs The codecs for reconstructing errors, matched by name.
+ * @returns {OkResult<unknown> | ErrorResult} The revived result.
+ * @throws {DecodeError} If the version of the shape (or of any nested shape) is not supported.
+ */
+export function decodeResult(json: ResultJSON, codecs: readonly ErrorCodec[]): OkResult<unknown> | ErrorResult {
+	checkVersion(json.$result);
+
+	return json.ok
+		? new OkResult(decodeValue(json.value, codecs))
+		: new ErrorResult(decodeValue(json.error, codecs));
+}
+
+function decodeValue(value: unknown, codecs: readonly ErrorCodec[]): unknown {
+	if (isResultJSON(value)) {
+		return decodeResult(value, codecs);
+	}
+
+	if (isErrorJSON(value)) {
+		return decodeError(value, codecs);
+	}
+
+	return isPlain(value)
+		? mapEntries(value, nested => decodeValue(nested, codecs))
+		: value;
+}
+
+function decodeError(json: ErrorJSON, codecs: readonly ErrorCodec[]): Error {
+	checkVersion(json.$error);
+
+	const fields = decodeValue(json.fields, codecs) as Record<string, unknown>;
+	const revived: ErrorJSON = {
+		...json,
+		..."cause" in json && { cause: decodeValue(json.cause, codecs) },
+		fields
+	};
+
+	const codec = codecs.find(codec => codec.name === json.name);
+
+	if (codec) {
+		return codec.decode(revived);
+	}
+
+	const error = Object.assign(new Error(revived.message), fields);
+
+	error.name = revived.name;
+
+	if (revived.stack !== undefined) {
+		error.stack = revived.stack;
+	}
+
+	if ("cause" in revived) {
+		Object.defineProperty(error, "cause", { value: revived.cause, writable: true, configurable: true });
+	}
+
+	return error;
+}
+
+function checkVersion(version: unknown): void {
+	if (version !== JSON_VERSION) {
+		throw new DecodeError("unsupported version " + String(version) + ", expected " + String(JSON_VERSION));
+	}
+}
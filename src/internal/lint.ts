@@ -0,0 +1,84 @@
+import { ESLintUtils, ParserServicesWithTypeInformation, TSESLint, TSESTree } from "@typescript-eslint/utils";
+import type * as ts from "typescript";
+
+/**
+ * Creates a rule of the `result` ESLint plugin.
+ */
+export const createRule = ESLintUtils.RuleCreator.withoutDocs;
+
+/**
+ * The kind of a value as seen by the rules: a (synchronous) {@link Result}, or a {@link Result.Promise}.
+ */
+export type ResultKind = "result" | "promise";
+
+const kinds: Readonly<Record<string, ResultKind>> = {
+	OkResult: "result",
+	ErrorResult: "result",
+	ResultPromise: "promise"
+};
+
+/**
+ * Internal utility function for listing the class names of the {@link Result} types a type may be,
+ * looking through unions (such as `Result<T, E>` itself, or `Result<T, E> | undefined`).
+ *
+ * @param {ts.Type} type The type to inspect.
+ * @returns {string[]} The names of the {@link Result} classes found, i.e. `OkResult`, `ErrorResult` and `ResultPromise`.
+ */
+export function resultClassesOf(type: ts.Type): string[] {
+	return (type.isUnion() ? type.types : [ type ]).
+		map(constituent => constituent.getSymbol()?.getName() ?? "").
+		filter(name => name in kinds);
+}
+
+/**
+ * Internal utility function for determining whether an expression evaluates to a {@link Result} or a {@link Result.Promise}.
+ *
+ * @param {ParserServicesWithTypeInformation} services The type information of the linted program.
+ * @param {TSESTree.Node} node The expression to inspect.
+ * @returns {ResultKind | undefined} The kind of the expression, or `undefined` if it is neither.
+ */
+export function kindOf(services: ParserServicesWithTypeInformation, node: TSESTree.Node): ResultKind | undefined {
+	const [ name ] = resultClassesOf(services.getTypeAtLocation(node));
+
+	return name
+		? kinds[name]
+		: undefined;
+}
+
+/**
+ * Internal utility function for determining whether an expression statement discards its value on purpose,
+ * as with assignments or the `void` operator.
+ *
+ * @param {TSESTree.Expression} expression The expression of the statement.
+ * @returns {boolean} Whether or not the value is discarded on purpose.
+ */
+export function isDiscardedOnPurpose(expression: TSESTree.Expression): boolean {
+	return expression.type === TSESTree.AST_NODE_TYPES.AssignmentExpression ||
+		expression.type === TSESTree.AST_NODE_TYPES.UnaryExpression && expression.operator === "void";
+}
+
+const prefixable = new Set<string>([
+	TSESTree.AST_NODE_TYPES.AwaitExpression,
+	TSESTree.AST_NODE_TYPES.CallExpression,
+	TSESTree.AST_NODE_TYPES.ChainExpression,
+	TSESTree.AST_NODE_TYPES.Identifier,
+	TSESTree.AST_NODE_TYPES.MemberExpression,
+	TSESTree.AST_NODE_TYPES.NewExpression,
+	TSESTree.AST_NODE_TYPES.TaggedTemplateExpression,
+	TSESTree.AST_NODE_TYPES.ThisExpression
+]);
+
+/**
+ * Internal utility function for prefixing an expression with a unary operator (such as `void` or `await`),
+ * parenthesizing the expression if it binds less tightly than the operator.
+ *
+ * @param {TSESLint.RuleFixer} fixer The fixer of the suggestion.
+ * @param {TSESTree.Expression} expression The expression to prefix.
+ * @param {string} operator The operator to prefix the expression with.
+ * @returns {TSESLint.RuleFix[]} The fixes inserting the operator.
+ */
+export function prefix(fixer: TSESLint.RuleFixer, expression: TSESTree.Expression, operator: string): TSESLint.RuleFix[] {
+	return prefixable.has(expression.type)
+		? [ fixer.insertTextBefore(expression, operator + " ") ]
+		: [fixer.insertTextBefore(expression, operator + " ("), fixer.insertTextAfter(expression, ")")];
+}
@@ -1,5 +1,6 @@
-// eslint-disable-next-line @typescript-eslint/no-unused-vars -- Result type information is used in JSDocs
-import type Result from "../../src";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars -- Result and Option type information is used in JSDocs
+import type { Option, Result } from "../../src";
+import type { ReleaseError } from "../errors";
 
 type ResultFlag = {
 	/**
@@ -48,3 +49,506 @@ export type ResultError<E> = ResultFlag & {
 	 */
 	readonly error: E;
 };
+
+type OptionFlag = {
+	/**
+	 * Indicates if this option contains a value or not.
+	 * Always `true` for {@link Option.Some}, and `false` for {@link Option.None}.
+	 */
+	readonly some: boolean;
+}
+
+/**
+ * Represents an option that contains a value.
+ *
+ * @template T The type of the contained value.
+ * @property {true} some Indicates that this option contains a value.
+ * @property {T} value The contained value.
+ * @extends OptionFlag
+ */
+export type OptionSome<T> = OptionFlag & {
+	/**
+	 * @see {@link OptionFlag.some}
+	 */
+	readonly some: true;
+
+	/**
+	 * The contained value.
+	 */
+	readonly value: T;
+};
+
+/**
+ * Represents an option that does not contain a value.
+ *
+ * @property {false} some Indicates that this option contains no value.
+ * @extends OptionFlag
+ */
+export type OptionNone = OptionFlag & {
+	/**
+	 * @see {@link OptionFlag.some}
+	 */
+	readonly some: false;
+};
+
+/**
+ * Extracts the success value type from a {@link Result} type (or a union of them).
+ *
+ * @template R The {@link Result} type.
+ */
+export type OkType<R> = R extends ResultValue<infer T> ? T : never;
+
+/**
+ * Extracts the error value type from a {@link Result} type (or a union of them).
+ *
+ * @template R The {@link Result} type.
+ */
+export type ErrorType<R> = R extends ResultError<infer E> ? E : never;
+
+/**
+ * Extracts the success value type from a {@link Result} or {@link Result.Promise} type (or a union of them).
+ *
+ * @template P The {@link Result} or {@link Result.Promise} type.
+ */
+export type PromiseOkType<P> = P extends Result.Promise<infer T> ? T : OkType<P>;
+
+/**
+ * Extracts the error value type from a {@link Result} or {@link Result.Promise} type (or a union of them).
+ *
+ * @template P The {@link Result} or {@link Result.Promise} type.
+ */
+export type PromiseErrorType<P> = P extends Result.Promise<unknown, infer E> ? E : ErrorType<P>;
+
+/**
+ * Maps a tuple, array or record of {@link Result} types to the respective success value types.
+ *
+ * @template R The tuple, array or record of {@link Result} types.
+ */
+export type OkTypes<R> = { -readonly [K in keyof R]: OkType<R[K]> };
+
+/**
+ * Extracts the `_tag` discriminants from a union of tagged error types.
+ *
+ * @template E The union of tagged error types.
+ */
+export type TagOf<E> = E extends { readonly _tag: infer K extends PropertyKey } ? K : never;
+
+/**
+ * An exhaustive set of handlers for a union of tagged error types, keyed by their `_tag` discriminant.
+ * Resolves to `never` if the error type is not a tagged union, or if any member of the union is untagged
+ * (such as `NotFound | string`), as no handler could be found for it.
+ *
+ * @template E The union of tagged error types.
+ * @template V The type returned by the handlers.
+ */
+export type ErrorMatcher<E, V> = [TagOf<E>] extends [never]
+	? never
+	: [Exclude<E, { readonly _tag: PropertyKey }>] extends [never]
+		? { readonly [K in TagOf<E>]: (error: Extract<E, { readonly _tag: K }>) => V }
+		: never;
+
+/**
+ * The handlers for each variant of a {@link Result}, used by {@link Result.Ok.match} and {@link Result.Error.match}.
+ *
+ * The error handler is either a single function, or an {@link ErrorMatcher} with one function per tag of the error union.
+ *
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ * @template U The type returned by the success handler.
+ * @template V The type returned by the error handler(s).
+ */
+export type Matcher<T, E, U, V> = {
+	readonly ok: (value: T) => U;
+	readonly error: ((error: E) => V) | ErrorMatcher<E, V>;
+};
+
+/**
+ * Excludes the tagged error types with the given `_tag` discriminants from a union.
+ *
+ * @template E The union of tagged error types.
+ * @template K The discriminants of the types to exclude.
+ */
+export type ExcludeTag<E, K extends PropertyKey> = Exclude<E, { readonly _tag: K }>;
+
+/**
+ * A partial set of handlers for a union of tagged error types, keyed by their `_tag` discriminant,
+ * as used by {@link Result.Error.catchTags}.
+ *
+ * @template E The union of tagged error types.
+ * @template R The type returned by the handlers.
+ */
+export type TagHandlers<E, R> = { readonly [K in TagOf<E>]?: (error: Extract<E, { readonly _tag: K }>) => R };
+
+/**
+ * The structured rendering of an error and its chain of causes, as returned by {@link Result.report}.
+ */
+export type ErrorReport = {
+	/**
+	 * The name of the error, if it is an {@link Error}.
+	 */
+	readonly name?: string;
+
+	/**
+	 * The `_tag` discriminant of the error, if it is tagged.
+	 */
+	readonly tag?: string;
+
+	/**
+	 * The message of the error, or the rendering of the value if it is not an {@link Error}.
+	 */
+	readonly message: string;
+
+	/**
+	 * The stack trace of the error, if any.
+	 */
+	readonly stack?: string;
+
+	/**
+	 * The report of the error that caused this one, if any.
+	 */
+	readonly cause?: ErrorReport;
+
+	/**
+	 * The reports of the aggregated errors, if it is an `AggregateError`.
+	 */
+	readonly errors?: readonly ErrorReport[];
+};
+
+/**
+ * The version of the JSON shape of {@link Result} and {@link Error} values, as produced by {@link Result.Ok.toJSON}.
+ */
+export type JSONVersion = 1;
+
+/**
+ * The JSON shape of a {@link Result.Ok}, as produced by {@link Result.Ok.toJSON}.
+ *
+ * @template T The type of the (encoded) success value.
+ * @property {JSONVersion} $result The version of the shape.
+ * @extends ResultValue
+ */
+export type ResultValueJSON<T> = ResultValue<T> & {
+	readonly $result: JSONVersion;
+};
+
+/**
+ * The JSON shape of a {@link Result.Error}, as produced by {@link Result.Error.toJSON}.
+ *
+ * @template E The type of the (encoded) error value.
+ * @property {JSONVersion} $result The version of the shape.
+ * @extends ResultError
+ */
+export type ResultErrorJSON<E> = ResultError<E> & {
+	readonly $result: JSONVersion;
+};
+
+/**
+ * The JSON shape of a {@link Result}.
+ *
+ * @template T The type of the (encoded) success value.
+ * @template E The type of the (encoded) error value.
+ */
+export type ResultJSON<T = unknown, E = unknown> = ResultValueJSON<T> | ResultErrorJSON<E>;
+
+/**
+ * The JSON shape of an {@link Error} contained in (or nested within the value of) a {@link Result}.
+ */
+export type ErrorJSON = {
+	readonly $error: JSONVersion;
+	readonly name: string;
+	readonly message: string;
+	readonly stack?: string;
+	readonly cause?: unknown;
+
+	/**
+	 * The (encoded) own enumerable fields of the error, other than the ones above.
+	 */
+	readonly fields: Readonly<Record<string, unknown>>;
+};
+
+/**
+ * Reconstructs instances of an {@link Error} subclass from their JSON shape, when reviving a {@link Result}.
+ *
+ * @template E The type of the error.
+ */
+export type ErrorCodec<E extends Error = Error> = {
+	/**
+	 * The `name` of the errors this codec reconstructs.
+	 */
+	readonly name: string;
+
+	/**
+	 * Reconstructs an error from its JSON shape, whose `cause` and `fields` are already revived.
+	 */
+	decode(json: ErrorJSON): E;
+};
+
+/**
+ * Options for {@link Result.revive} and {@link Result.fromJSON}.
+ */
+export type ReviveOptions = {
+	/**
+	 * The codecs for reconstructing {@link Error} subclasses, matched by name.
+	 * Errors without a matching codec are reconstructed as plain {@link Error} instances,
+	 * with their name, message, stack, cause and fields restored.
+	 */
+	readonly codecs?: readonly ErrorCodec[];
+};
+
+/**
+ * Options for {@link Result.validate}.
+ */
+export type ValidateOptions = {
+	/**
+	 * Whether to return the errors as the `errors` of an `AggregateError`, instead of as an array.
+	 */
+	readonly aggregate?: boolean;
+
+	/**
+	 * The message of the `AggregateError`. Defaults to `"validation failed"`.
+	 */
+	readonly message?: string;
+};
+
+/**
+ * An `AggregateError` of errors of type `E`, typed structurally so that the ES2021 library is not required.
+ *
+ * @template E The type of the aggregated errors.
+ */
+export type Aggregated<E> = Error & {
+	/**
+	 * The aggregated errors.
+	 */
+	readonly errors: E[];
+};
+
+/**
+ * An issue reported by a {@link StandardSchema} validator, whose path segments may be wrapped in objects.
+ */
+export type StandardIssue = {
+	readonly message: string;
+	readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[] | undefined;
+};
+
+/**
+ * The outcome of validating a value against a {@link StandardSchema}.
+ *
+ * @template Output The type of the validated value.
+ */
+export type StandardResult<Output> =
+	{ readonly value: Output; readonly issues?: undefined } |
+	{ readonly issues: readonly StandardIssue[] };
+
+/**
+ * A schema implementing the {@link https://standardschema.dev Standard Schema} interface,
+ * as implemented by validation libraries such as Zod, Valibot or ArkType.
+ *
+ * @template Input The type of the value before validation.
+ * @template Output The type of the value after validation.
+ */
+export type StandardSchema<Input = unknown, Output = Input> = {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (value: unknown) => StandardResult<Output> | PromiseLike<StandardResult<Output>>;
+		readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+	};
+};
+
+/**
+ * Extracts the type of the validated value of a {@link StandardSchema}.
+ *
+ * @template S The type of the schema.
+ */
+export type SchemaOutput<S extends StandardSchema> = S extends StandardSchema<unknown, infer Output> ? Output : never;
+
+/**
+ * An issue found while validating a value against a {@link StandardSchema}.
+ *
+ * @property {string} message The description of the issue.
+ * @property {readonly PropertyKey[]} path The keys leading to the invalid value, empty if the value itself is invalid.
+ */
+export type SchemaIssue = {
+	readonly message: string;
+	readonly path: readonly PropertyKey[];
+};
+
+/**
+ * The issues found while validating a value against a {@link StandardSchema}, as contained in a {@link Result.Error}.
+ */
+export type SchemaIssues = readonly SchemaIssue[];
+
+/**
+ * Options for {@link Result.from} and {@link Result.wrap}.
+ *
+ * @template E The type of the error value.
+ */
+export type FromOptions<E> = {
+	/**
+	 * Maps a thrown error (or rejection reason) to the error value of the {@link Result.Error}.
+	 */
+	readonly mapError: (error: unknown) => E;
+};
+
+/**
+ * A stream of {@link Result}, either asynchronous or synchronous (possibly of promises of {@link Result}),
+ * as consumed by the {@link Result.Async} helpers.
+ *
+ * @template T The type of the success values.
+ * @template E The type of the error values.
+ */
+export type AsyncResults<T, E> = AsyncIterable<Result<T, E>> | Iterable<Result<T, E> | PromiseLike<Result<T, E>>>;
+
+/**
+ * The outcome of calling a function: either the value it returned, or the error it threw.
+ *
+ * @template T The type of the returned value.
+ */
+export type Attempt<T> =
+	| { readonly threw: false; readonly value: T }
+	| { readonly threw: true; readonly reason: unknown };
+
+/**
+ * The errors added to a bracket by a release function returning `U`: the error of a returned {@link Result.Error},
+ * alone or combined with the error of using the resource into a {@link ReleaseError}. Anything the release function
+ * may return is assumed to fail when `U` is `unknown`, and nothing else fails.
+ *
+ * @template F The type of the error value of using the resource.
+ * @template U The type returned by the release function, once awaited.
+ */
+export type ReleaseFailure<F, U> = unknown extends U
+	? unknown
+	: U extends Result.Error<infer G>
+		? G | ReleaseError<F, G>
+		: never;
+
+/**
+ * The options passed by Node.js `util.inspect` to custom inspection functions.
+ */
+export type InspectOptions = {
+	readonly depth?: number | null;
+	readonly colors?: boolean;
+	readonly stylize: (text: string, styleType: string) => string;
+};
+
+/**
+ * The `util.inspect` function, as passed by Node.js to custom inspection functions.
+ */
+export type Inspect = (value: unknown, options: InspectOptions) => string;
+
+/**
+ * The value received by the next step of a pipeline: the {@link Result} a {@link Result.Promise} settles to,
+ * or any other value as is.
+ *
+ * @template R The value returned by the previous step.
+ */
+export type Settled<R> = R extends Result.Promise<infer T, infer E> ? Result<T, E> : R;
+
+/**
+ * The type required of the value returned by a step of a pipeline, given the values the pipeline went through before it:
+ * any value while the pipeline is synchronous, but only a {@link Result} or a {@link Result.Promise} once it is asynchronous,
+ * so that a step such as `unwrapOr` after a {@link Result.Promise} is a compile error rather than a rejection.
+ *
+ * @template V The tuple of values the pipeline went through before the step.
+ * @template R The type returned by the step.
+ */
+export type PipeStep<V extends readonly unknown[], R> = [Extract<V[number], Result.Promise<unknown>>] extends [never]
+	? R
+	: R & (Result<unknown> | Result.Promise<unknown>);
+
+/**
+ * The output of a pipeline, given the values it goes through: the last value if every step is synchronous,
+ * or a {@link Result.Promise} of the last {@link Result} if any of them is a {@link Result.Promise}.
+ * Any other last value of an asynchronous pipeline is ruled out by {@link PipeStep}.
+ *
+ * @template V The tuple of values the pipeline goes through, from its input to its output.
+ */
+export type Piped<V extends readonly unknown[]> = V extends readonly [...unknown[], infer Z]
+	? [Extract<V[number], Result.Promise<unknown>>] extends [never]
+		? Z
+		: Settled<Z> extends Result<unknown>
+			? Result.Promise<OkType<Settled<Z>>, ErrorType<Settled<Z>>>
+			: never
+	: never;
+
+/**
+ * The shape of a neverthrow `Result`: an `Ok` holding a `value`, or an `Err` holding an `error`,
+ * told apart by their `isOk` and `isErr` methods.
+ *
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ */
+export type NeverthrowResult<T, E> =
+	| { readonly value: T; isOk(): boolean; isErr(): boolean }
+	| { readonly error: E; isOk(): boolean; isErr(): boolean };
+
+/**
+ * The shape of a ts-results `Result`: an `Ok` or an `Err` holding a `val`, told apart by their `ok` and `err` flags.
+ *
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ */
+export type TsResultsResult<T, E> =
+	| { readonly ok: true; readonly err: false; readonly val: T }
+	| { readonly ok: false; readonly err: true; readonly val: E };
+
+/**
+ * The shape of an fp-ts `Either`: a `Right` holding a success value, or a `Left` holding an error value.
+ *
+ * @template E The type of the error value.
+ * @template A The type of the success value.
+ */
+export type Either<E, A> =
+	| { readonly _tag: "Left"; readonly left: E }
+	| { readonly _tag: "Right"; readonly right: A };
+
+/**
+ * The shape of an fp-ts `TaskEither`: a lazy asynchronous computation that never rejects, resolving to an {@link Either}.
+ *
+ * @template E The type of the error value.
+ * @template A The type of the success value.
+ */
+export type TaskEither<E, A> = () => Promise<Either<E, A>>;
+
+/**
+ * A Node.js-style callback, called with an error as its first argument on failure,
+ * or with `null` (or `undefined`) and the success value on success.
+ *
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ */
+export type NodeCallback<T, E> = (error: E | null | undefined, value?: T) => void;
+
+/**
+ * The shape of a Node.js `EventEmitter`, as consumed by {@link Result.Promise.once}.
+ */
+export type EventEmitterLike = {
+	on(event: string | symbol, listener: (...args: unknown[]) => void): unknown;
+	off(event: string | symbol, listener: (...args: unknown[]) => void): unknown;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars -- only declared for its unique symbol type
+declare const disposeFallback: unique symbol;
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars -- only declared for its unique symbol type
+declare const asyncDisposeFallback: unique symbol;
+
+/**
+ * The type of `Symbol.dispose`, or of a stand-in symbol when the `lib` of the compilation does not declare it,
+ * so that the public types do not require `esnext.disposable`.
+ */
+export type DisposeSymbol = SymbolConstructor extends { readonly dispose: symbol } ? SymbolConstructor["dispose"] : typeof disposeFallback;
+
+/**
+ * The type of `Symbol.asyncDispose`, or of a stand-in symbol when the `lib` of the compilation does not declare it.
+ */
+export type AsyncDisposeSymbol = SymbolConstructor extends { readonly asyncDispose: symbol } ? SymbolConstructor["asyncDispose"] : typeof asyncDisposeFallback;
+
+/**
+ * A resource that can be released synchronously, such as a `Disposable`.
+ */
+export type DisposableResource = Readonly<Record<DisposeSymbol, () => void>>;
+
+/**
+ * A resource that can be released asynchronously, such as an `AsyncDisposable`.
+ */
+export type AsyncDisposableResource = Readonly<Record<AsyncDisposeSymbol, () => PromiseLike<void>>>;
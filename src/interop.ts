@@ -0,0 +1,245 @@
+import Result from ".";
+import { Either, NeverthrowResult, TaskEither, TsResultsResult } from "./internal/types";
+
+export type { Either, NeverthrowResult, TaskEither, TsResultsResult } from "./internal/types";
+
+/**
+ * Converts a neverthrow `Result` into a {@link Result}.
+ *
+ * The conversion is structural, so neverthrow is not needed at runtime.
+ *
+ * @function fromNeverthrow
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ * @param {NeverthrowResult<T, E>} result The neverthrow `Result` to convert.
+ * @returns {Result<T, E>} The converted {@link Result}.
+ *
+ * @example
+ * ```typescript
+ * const result = fromNeverthrow(ok(42)); // Result<number, never>
+ * ```
+ */
+export function fromNeverthrow<T, E>(result: NeverthrowResult<T, E>): Result<T, E> {
+	return "value" in result && result.isOk()
+		? Result.ok(result.value)
+		: Result.error((result as { readonly error: E }).error);
+}
+
+/**
+ * Converts a neverthrow `ResultAsync`, or any promise of a neverthrow `Result`, into a {@link Result.Promise}.
+ *
+ * @function fromNeverthrowAsync
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ * @param {PromiseLike<NeverthrowResult<T, E>>} result The neverthrow `ResultAsync` to convert.
+ * @returns {Result.Promise<T, E>} The converted {@link Result.Promise}.
+ *
+ * @example
+ * ```typescript
+ * const user = fromNeverthrowAsync(legacyFetchUser(id)); // Result.Promise<User, HttpError>
+ * ```
+ */
+export function fromNeverthrowAsync<T, E>(result: PromiseLike<NeverthrowResult<T, E>>): Result.Promise<T, E> {
+	return new Result.Promise<T, E>((resolve, reject, catcher) =>
+		void result.then(
+			value => {
+				const converted = fromNeverthrow(value);
+
+				if (converted.ok) {
+					resolve(converted.value);
+				} else {
+					reject(converted.error);
+				}
+			},
+			catcher
+		));
+}
+
+/**
+ * Converts a {@link Result} into a neverthrow `Result`, built with the `ok` and `err` functions of neverthrow,
+ * which are passed in so that neverthrow is not needed at runtime by this package.
+ *
+ * @function toNeverthrow
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ * @template O The type of the neverthrow `Ok`.
+ * @template F The type of the neverthrow `Err`.
+ * @param {Result<T, E>} result The {@link Result} to convert.
+ * @param {{ ok: (value: T) => O; err: (error: E) => F }} constructors The `ok` and `err` functions of neverthrow.
+ * @returns {O | F} The converted neverthrow `Result`.
+ *
+ * @example
+ * ```typescript
+ * import { err, ok } from "neverthrow";
+ *
+ * const legacy = toNeverthrow(Result.ok(42), { ok, err }); // Ok<number, never> | Err<never, never>
+ * ```
+ */
+export function toNeverthrow<T, E, O, F>(result: Result<T, E>, constructors: { readonly ok: (value: T) => O; readonly err: (error: E) => F }): O | F {
+	return result.ok
+		? constructors.ok(result.value)
+		: constructors.err(result.error);
+}
+
+/**
+ * Converts a {@link Result.Promise} into a promise of a neverthrow `Result`, built with the `ok` and `err` functions
+ * of neverthrow, from which a neverthrow `ResultAsync` can be constructed.
+ *
+ * The returned promise rejects if the {@link Result.Promise} rejects.
+ *
+ * @function toNeverthrowAsync
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ * @template O The type of the neverthrow `Ok`.
+ * @template F The type of the neverthrow `Err`.
+ * @param {Result.Promise<T, E>} result The {@link Result.Promise} to convert.
+ * @param {{ ok: (value: T) => O; err: (error: E) => F }} constructors The `ok` and `err` functions of neverthrow.
+ * @returns {Promise<O | F>} The promise of the converted neverthrow `Result`.
+ *
+ * @example
+ * ```typescript
+ * import { err, ok, ResultAsync } from "neverthrow";
+ *
+ * const legacy = new ResultAsync(toNeverthrowAsync(fetchUser(id), { ok, err })); // ResultAsync<User, HttpError>
+ * ```
+ */
+export function toNeverthrowAsync<T, E, O, F>(result: Result.Promise<T, E>, constructors: { readonly ok: (value: T) => O; readonly err: (error: E) => F }): Promise<O | F> {
+	return new Promise<O | F>((resolve, reject) =>
+		void result.then(value => resolve(toNeverthrow(value, constructors)), reject));
+}
+
+/**
+ * Converts a ts-results `Ok` or `Err` into a {@link Result}.
+ *
+ * The conversion is structural, so ts-results is not needed at runtime.
+ *
+ * @function fromTsResults
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ * @param {TsResultsResult<T, E>} result The ts-results `Result` to convert.
+ * @returns {Result<T, E>} The converted {@link Result}.
+ *
+ * @example
+ * ```typescript
+ * const result = fromTsResults(new Err("missing")); // Result<never, string>
+ * ```
+ */
+export function fromTsResults<T, E>(result: TsResultsResult<T, E>): Result<T, E> {
+	return result.ok
+		? Result.ok(result.val)
+		: Result.error(result.val);
+}
+
+/**
+ * Converts a {@link Result} into a ts-results `Ok` or `Err`, built with the `Ok` and `Err` constructors of ts-results,
+ * which are passed in so that ts-results is not needed at runtime by this package.
+ *
+ * @function toTsResults
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ * @template O The type of the ts-results `Ok`.
+ * @template F The type of the ts-results `Err`.
+ * @param {Result<T, E>} result The {@link Result} to convert.
+ * @param {{ Ok: (value: T) => O; Err: (error: E) => F }} constructors The `Ok` and `Err` constructors of ts-results.
+ * @returns {O | F} The converted ts-results `Result`.
+ *
+ * @example
+ * ```typescript
+ * import { Err, Ok } from "ts-results";
+ *
+ * const legacy = toTsResults(Result.error("missing"), { Ok, Err }); // Ok<never> | Err<string>
+ * ```
+ */
+export function toTsResults<T, E, O, F>(result: Result<T, E>, constructors: { readonly Ok: (value: T) => O; readonly Err: (error: E) => F }): O | F {
+	return result.ok
+		? constructors.Ok(result.value)
+		: constructors.Err(result.error);
+}
+
+/**
+ * Converts an fp-ts `Either` into a {@link Result}: a `Right` into a {@link Result.Ok}, and a `Left` into a {@link Result.Error}.
+ *
+ * @function fromEither
+ * @template E The type of the error value.
+ * @template A The type of the success value.
+ * @param {Either<E, A>} either The `Either` to convert.
+ * @returns {Result<A, E>} The converted {@link Result}.
+ *
+ * @example
+ * ```typescript
+ * const result = fromEither(E.right(42)); // Result<number, never>
+ * ```
+ */
+export function fromEither<E, A>(either: Either<E, A>): Result<A, E> {
+	return either._tag === "Right"
+		? Result.ok(either.right)
+		: Result.error(either.left);
+}
+
+/**
+ * Converts a {@link Result} into an fp-ts `Either`: a {@link Result.Ok} into a `Right`, and a {@link Result.Error} into a `Left`.
+ *
+ * As an `Either` is plain data, it is built directly, without fp-ts.
+ *
+ * @function toEither
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ * @param {Result<T, E>} result The {@link Result} to convert.
+ * @returns {Either<E, T>} The converted `Either`.
+ *
+ * @example
+ * ```typescript
+ * const either = toEither(Result.error("missing")); // Either<string, never>
+ * ```
+ */
+export function toEither<T, E>(result: Result<T, E>): Either<E, T> {
+	return result.ok
+		? { _tag: "Right", right: result.value }
+		: { _tag: "Left", left: result.error };
+}
+
+/**
+ * Runs an fp-ts `TaskEither` and converts the `Either` it resolves to into a {@link Result.Promise}.
+ *
+ * @function fromTaskEither
+ * @template E The type of the error value.
+ * @template A The type of the success value.
+ * @param {TaskEither<E, A>} task The `TaskEither` to run.
+ * @returns {Result.Promise<A, E>} The converted {@link Result.Promise}.
+ *
+ * @example
+ * ```typescript
+ * const user = fromTaskEither(legacyFetchUser(id)); // Result.Promise<User, HttpError>
+ * ```
+ */
+export function fromTaskEither<E, A>(task: TaskEither<E, A>): Result.Promise<A, E> {
+	return new Result.Promise<A, E>((resolve, reject, catcher) =>
+		void task().then(
+			either => either._tag === "Right"
+				? resolve(either.right)
+				: reject(either.left),
+			catcher
+		));
+}
+
+/**
+ * Converts a {@link Result.Promise} into an fp-ts `TaskEither`, resolving to a `Right` or a `Left` when run.
+ *
+ * As a `TaskEither` is lazy while a {@link Result.Promise} is eager, running the task does not rerun the underlying work.
+ * The task rejects if the {@link Result.Promise} rejects.
+ *
+ * @function toTaskEither
+ * @template T The type of the success value.
+ * @template E The type of the error value.
+ * @param {Result.Promise<T, E>} result The {@link Result.Promise} to convert.
+ * @returns {TaskEither<E, T>} The converted `TaskEither`.
+ *
+ * @example
+ * ```typescript
+ * const task = toTaskEither(fetchUser(id)); // TaskEither<HttpError, User>
+ * ```
+ */
+export function toTaskEither<T, E>(result: Result.Promise<T, E>): TaskEither<E, T> {
+	return () => new Promise<Either<E, T>>((resolve, reject) =>
+		void result.then(value => resolve(toEither(value)), reject));
+}
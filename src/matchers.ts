@@ -0,0 +1,165 @@
+import Result from ".";
+
+declare global {
+	namespace jest {
+		// eslint-disable-next-line @typescript-eslint/no-empty-object-type, @typescript-eslint/no-unused-vars
+		interface Matchers<R, T = {}> {
+			/**
+			 * Checks that the received value is a {@link Result.Ok}.
+			 */
+			toBeOk(): R;
+
+			/**
+			 * Checks that the received value is a {@link Result.Ok} whose value recursively equals the expected value
+			 * (which may be an asymmetric matcher, such as `expect.any(Number)`).
+			 */
+			toBeOkWith(expected: unknown): R;
+
+			/**
+			 * Checks that the received value is a {@link Result.Error}.
+			 */
+			toBeError(): R;
+
+			/**
+			 * Checks that the received value is a {@link Result.Error} whose error is an instance of the expected class,
+			 * or recursively equals the expected value (which may be an asymmetric matcher, such as `expect.objectContaining({ ... })`).
+			 */
+			toBeErrorWith(expected: unknown): R;
+
+			/**
+			 * Checks that the received {@link Result.Promise} resolves to a {@link Result.Ok},
+			 * whose value recursively equals the expected value, if given.
+			 */
+			toResolveOk(expected?: unknown): Promise<R>;
+
+			/**
+			 * Checks that the received {@link Result.Promise} resolves to a {@link Result.Error},
+			 * whose error is an instance of the expected class or recursively equals the expected value, if given.
+			 */
+			toResolveError(expected?: unknown): Promise<R>;
+		}
+	}
+}
+
+/**
+ * Internal utility function for checking that a received value is the expected variant of a {@link Result},
+ * whose value or error optionally matches an expected one, and describing any mismatch as jest does.
+ *
+ * @param {jest.MatcherContext} context The context of the matcher.
+ * @param {string} name The name of the matcher.
+ * @param {unknown} received The received value.
+ * @param {boolean} ok Whether the expected variant is a {@link Result.Ok}.
+ * @param {[] | [unknown]} expected The expected value or error, if any.
+ * @returns {jest.CustomMatcherResult} The outcome of the matcher.
+ */
+function matchVariant(context: jest.MatcherContext, name: string, received: unknown, ok: boolean, expected: [] | [unknown]): jest.CustomMatcherResult {
+	const { utils } = context;
+	const variant = ok ? "Ok" : "Error";
+	const label = ok ? "value" : "error";
+
+	const isVariant = Result.is(received) && received.ok === ok;
+	const actual: unknown = Result.is(received)
+		? received.ok
+			? received.value
+			: received.error
+		: undefined;
+
+	const pass = isVariant && (expected.length === 0 || matchesExpected(context, actual, expected[0], ok));
+
+	const hint = utils.matcherHint(name, undefined, expected.length ? label : "", { isNot: context.isNot, promise: context.promise });
+	const not = context.isNot ? "not " : "";
+
+	return {
+		pass,
+		message: () => {
+			if (!isVariant || expected.length === 0 || context.isNot) {
+				const description = expected.length === 0
+					? "..."
+					: printExpected(utils, expected[0]);
+
+				return hint + "\n\n" +
+					"Expected: " + not + variant + "(" + description + ")\n" +
+					"Received: " + printResult(utils, received);
+			}
+
+			return hint + "\n\n" + utils.printDiffOrStringify(
+				expected[0],
+				actual,
+				"Expected " + label,
+				"Received " + label,
+				context.expand ?? true
+			);
+		}
+	};
+}
+
+function matchesExpected(context: jest.MatcherContext, actual: unknown, expected: unknown, ok: boolean): boolean {
+	return !ok && typeof expected === "function"
+		? actual instanceof expected
+		: context.equals(actual, expected);
+}
+
+function printExpected(utils: jest.MatcherUtils["utils"], expected: unknown): string {
+	return typeof expected === "function"
+		? "instance of " + utils.EXPECTED_COLOR(expected.name)
+		: utils.printExpected(expected);
+}
+
+function printResult(utils: jest.MatcherUtils["utils"], received: unknown): string {
+	if (!Result.is(received)) {
+		return utils.printReceived(received);
+	}
+
+	return received.ok
+		? "Ok(" + utils.printReceived(received.value) + ")"
+		: "Error(" + utils.printReceived(received.error) + ")";
+}
+
+/**
+ * The custom matchers for {@link Result} and {@link Result.Promise}, registered with `expect.extend` when importing this module.
+ *
+ * @example
+ * ```typescript
+ * // jest.config.ts
+ * export default { setupFilesAfterEnv: ["result/jest"] };
+ *
+ * // user.test.ts
+ * expect(parse("42")).toBeOkWith(42);
+ * expect(parse("x")).toBeErrorWith(ParseError);
+ * await expect(fetchUser("42")).toResolveOk(expect.objectContaining({ id: "42" }));
+ * ```
+ */
+export const matchers = {
+	toBeOk(this: jest.MatcherContext, received: unknown): jest.CustomMatcherResult {
+		return matchVariant(this, "toBeOk", received, true, []);
+	},
+	toBeOkWith(this: jest.MatcherContext, received: unknown, expected: unknown): jest.CustomMatcherResult {
+		return matchVariant(this, "toBeOkWith", received, true, [ expected ]);
+	},
+	toBeError(this: jest.MatcherContext, received: unknown): jest.CustomMatcherResult {
+		return matchVariant(this, "toBeError", received, false, []);
+	},
+	toBeErrorWith(this: jest.MatcherContext, received: unknown, expected: unknown): jest.CustomMatcherResult {
+		return matchVariant(this, "toBeErrorWith", received, false, [ expected ]);
+	},
+	async toResolveOk(this: jest.MatcherContext, received: unknown, ...expected: [] | [unknown]): Promise<jest.CustomMatcherResult> {
+		return matchVariant(this, "toResolveOk", await received, true, expected);
+	},
+	async toResolveError(this: jest.MatcherContext, received: unknown, ...expected: [] | [unknown]): Promise<jest.CustomMatcherResult> {
+		return matchVariant(this, "toResolveError", await received, false, expected);
+	}
+};
+
+/**
+ * The snapshot serializer printing a {@link Result.Ok} as `Ok(value)` and a {@link Result.Error} as `Error(error)`,
+ * registered with `expect.addSnapshotSerializer` when importing this module.
+ */
+export const serializer: jest.SnapshotSerializerPlugin = {
+	test: (value: unknown) => Result.is(value),
+	serialize: (value: Result<unknown>, config, indentation, depth, refs, printer) => value.ok
+		? "Ok(" + printer(value.value, config, indentation, depth, refs) + ")"
+		: "Error(" + printer(value.error, config, indentation, depth, refs) + ")"
+};
+
+expect.extend(matchers);
+expect.addSnapshotSerializer(serializer);
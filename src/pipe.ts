@@ -0,0 +1,219 @@
+import Result from ".";
+import { Piped, PipeStep, Settled } from "./internal/types";
+
+/**
+ * Creates a pipeable operator that maps the value of a {@link Result.Ok}, passing a {@link Result.Error} through unchanged.
+ *
+ * @function map
+ * @template T The type of the success value.
+ * @template U The type of the mapped success value.
+ * @param {(value: T) => U} fn The function to map the success value with.
+ * @returns {<E>(result: Result<T, E>) => Result<U, E>} The operator.
+ *
+ * @example
+ * ```typescript
+ * const length = pipe(Result.ok("hello"), map(value => value.length)); // Result<number, never>
+ * ```
+ */
+export function map<T, U>(fn: (value: T) => U): <E>(result: Result<T, E>) => Result<U, E> {
+	return result => result.map(fn);
+}
+
+/**
+ * Creates a pipeable operator that maps the error of a {@link Result.Error}, passing a {@link Result.Ok} through unchanged.
+ *
+ * @function mapErr
+ * @template E The type of the error value.
+ * @template F The type of the mapped error value.
+ * @param {(error: E) => F} fn The function to map the error value with.
+ * @returns {<T>(result: Result<T, E>) => Result<T, F>} The operator.
+ *
+ * @example
+ * ```typescript
+ * const result = pipe(readConfig(), mapErr(error => new ConfigError(error))); // Result<Config, ConfigError>
+ * ```
+ */
+export function mapErr<E, F>(fn: (error: E) => F): <T>(result: Result<T, E>) => Result<T, F> {
+	return result => result.mapErr(fn);
+}
+
+/**
+ * Creates a pipeable operator that chains the value of a {@link Result.Ok} into another {@link Result},
+ * passing a {@link Result.Error} through unchanged.
+ *
+ * When the function returns a {@link Result.Promise}, the rest of the pipeline runs asynchronously,
+ * and the pipeline returns a {@link Result.Promise}.
+ *
+ * @function andThen
+ * @template T The type of the success value.
+ * @template U The type of the chained success value.
+ * @template F The type of the chained error value.
+ * @param {(value: T) => Result<U, F> | Result.Promise<U, F>} fn The function to chain the success value with.
+ * @returns {<E>(result: Result<T, E>) => Result<U, E | F> | Result.Promise<U, E | F>} The operator.
+ *
+ * @example
+ * ```typescript
+ * const user = pipe(Result.ok(id), andThen(validateId), andThen(fetchUser)); // Result.Promise<User, ValidationError | HttpError>
+ * ```
+ */
+export function andThen<T, U, F>(fn: (value: T) => Result.Promise<U, F>): <E>(result: Result<T, E>) => Result<U, E | F> | Result.Promise<U, E | F>;
+export function andThen<T, U, F>(fn: (value: T) => Result<U, F>): <E>(result: Result<T, E>) => Result<U, E | F>;
+export function andThen<T, U, F>(fn: (value: T) => Result<U, F> | Result.Promise<U, F>): <E>(result: Result<T, E>) => Result<U, E | F> | Result.Promise<U, E | F> {
+	return result => result.ok
+		? fn(result.value)
+		: result;
+}
+
+/**
+ * Creates a pipeable operator that calls a function with the value of a {@link Result.Ok}, for its side effects,
+ * and passes the {@link Result} through unchanged.
+ *
+ * @function tap
+ * @template T The type of the success value.
+ * @param {(value: T) => void} fn The function to call with the success value.
+ * @returns {<E>(result: Result<T, E>) => Result<T, E>} The operator.
+ *
+ * @example
+ * ```typescript
+ * const result = pipe(parseConfig(text), tap(config => console.log("loaded", config)));
+ * ```
+ */
+export function tap<T>(fn: (value: T) => void): <E>(result: Result<T, E>) => Result<T, E> {
+	return result => result.inspect(fn);
+}
+
+/**
+ * Creates a pipeable operator that unwraps the value of a {@link Result.Ok}, or returns a default value for a {@link Result.Error}.
+ * Only allowed as a step of a synchronous pipeline: to unwrap a {@link Result.Promise}, await it first.
+ *
+ * @function unwrapOr
+ * @template U The type of the default value.
+ * @param {U} defaultValue The value to return for a {@link Result.Error}.
+ * @returns {<T, E>(result: Result<T, E>) => T | U} The operator.
+ *
+ * @example
+ * ```typescript
+ * const port = pipe(Result.from(() => parsePort(env.PORT)), unwrapOr(8080)); // number
+ * ```
+ */
+export function unwrapOr<U>(defaultValue: U): <T, E>(result: Result<T, E>) => T | U {
+	return <T>(result: Result<T>) => result.ok
+		? result.value
+		: defaultValue;
+}
+
+/**
+ * Passes a value through a pipeline of functions, such as the pipeable operators of this module, from left to right.
+ *
+ * Every step receives the value returned by the previous one, except that a {@link Result.Promise} is awaited first:
+ * from the first {@link Result.Promise} on (whether it is the input or returned by a step), the rest of the pipeline
+ * runs asynchronously, each step receiving the settled {@link Result}, and the pipeline returns a {@link Result.Promise}
+ * of the {@link Result} returned by the last step. Every step of an asynchronous pipeline must therefore return a {@link Result}
+ * (or a {@link Result.Promise}), which is checked at compile time. A thrown error (or rejection) in an asynchronous pipeline
+ * rejects that promise.
+ *
+ * @function pipe
+ * @param {unknown} value The input of the pipeline.
+ * @param {...Function} fns The steps of the pipeline.
+ * @returns {unknown} The value returned by the last step, or a {@link Result.Promise} of it.
+ *
+ * @example
+ * ```typescript
+ * const name = pipe(
+ *   Result.Promise.from(() => fetch(url)),
+ *   andThen(response => Result.Promise.from(() => response.json())),
+ *   map(json => json.name),
+ *   mapErr(error => new HttpError(error))
+ * ); // Result.Promise<string, HttpError>
+ * ```
+ */
+export function pipe<A>(value: A): A;
+export function pipe<A, B>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>): Piped<[A, B]>;
+export function pipe<A, B, C>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>): Piped<[A, B, C]>;
+export function pipe<A, B, C, D>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>, cd: (value: Settled<C>) => PipeStep<[A, B, C], D>): Piped<[A, B, C, D]>;
+export function pipe<A, B, C, D, E>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>, cd: (value: Settled<C>) => PipeStep<[A, B, C], D>, de: (value: Settled<D>) => PipeStep<[A, B, C, D], E>): Piped<[A, B, C, D, E]>;
+export function pipe<A, B, C, D, E, F>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>, cd: (value: Settled<C>) => PipeStep<[A, B, C], D>, de: (value: Settled<D>) => PipeStep<[A, B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[A, B, C, D, E], F>): Piped<[A, B, C, D, E, F]>;
+export function pipe<A, B, C, D, E, F, G>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>, cd: (value: Settled<C>) => PipeStep<[A, B, C], D>, de: (value: Settled<D>) => PipeStep<[A, B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[A, B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[A, B, C, D, E, F], G>): Piped<[A, B, C, D, E, F, G]>;
+export function pipe<A, B, C, D, E, F, G, H>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>, cd: (value: Settled<C>) => PipeStep<[A, B, C], D>, de: (value: Settled<D>) => PipeStep<[A, B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[A, B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[A, B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[A, B, C, D, E, F, G], H>): Piped<[A, B, C, D, E, F, G, H]>;
+export function pipe<A, B, C, D, E, F, G, H, I>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>, cd: (value: Settled<C>) => PipeStep<[A, B, C], D>, de: (value: Settled<D>) => PipeStep<[A, B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[A, B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[A, B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[A, B, C, D, E, F, G], H>, hi: (value: Settled<H>) => PipeStep<[A, B, C, D, E, F, G, H], I>): Piped<[A, B, C, D, E, F, G, H, I]>;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>, cd: (value: Settled<C>) => PipeStep<[A, B, C], D>, de: (value: Settled<D>) => PipeStep<[A, B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[A, B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[A, B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[A, B, C, D, E, F, G], H>, hi: (value: Settled<H>) => PipeStep<[A, B, C, D, E, F, G, H], I>, ij: (value: Settled<I>) => PipeStep<[A, B, C, D, E, F, G, H, I], J>): Piped<[A, B, C, D, E, F, G, H, I, J]>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>, cd: (value: Settled<C>) => PipeStep<[A, B, C], D>, de: (value: Settled<D>) => PipeStep<[A, B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[A, B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[A, B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[A, B, C, D, E, F, G], H>, hi: (value: Settled<H>) => PipeStep<[A, B, C, D, E, F, G, H], I>, ij: (value: Settled<I>) => PipeStep<[A, B, C, D, E, F, G, H, I], J>, jk: (value: Settled<J>) => PipeStep<[A, B, C, D, E, F, G, H, I, J], K>): Piped<[A, B, C, D, E, F, G, H, I, J, K]>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>, cd: (value: Settled<C>) => PipeStep<[A, B, C], D>, de: (value: Settled<D>) => PipeStep<[A, B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[A, B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[A, B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[A, B, C, D, E, F, G], H>, hi: (value: Settled<H>) => PipeStep<[A, B, C, D, E, F, G, H], I>, ij: (value: Settled<I>) => PipeStep<[A, B, C, D, E, F, G, H, I], J>, jk: (value: Settled<J>) => PipeStep<[A, B, C, D, E, F, G, H, I, J], K>, kl: (value: Settled<K>) => PipeStep<[A, B, C, D, E, F, G, H, I, J, K], L>): Piped<[A, B, C, D, E, F, G, H, I, J, K, L]>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M>(value: A, ab: (value: Settled<A>) => PipeStep<[A], B>, bc: (value: Settled<B>) => PipeStep<[A, B], C>, cd: (value: Settled<C>) => PipeStep<[A, B, C], D>, de: (value: Settled<D>) => PipeStep<[A, B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[A, B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[A, B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[A, B, C, D, E, F, G], H>, hi: (value: Settled<H>) => PipeStep<[A, B, C, D, E, F, G, H], I>, ij: (value: Settled<I>) => PipeStep<[A, B, C, D, E, F, G, H, I], J>, jk: (value: Settled<J>) => PipeStep<[A, B, C, D, E, F, G, H, I, J], K>, kl: (value: Settled<K>) => PipeStep<[A, B, C, D, E, F, G, H, I, J, K], L>, lm: (value: Settled<L>) => PipeStep<[A, B, C, D, E, F, G, H, I, J, K, L], M>): Piped<[A, B, C, D, E, F, G, H, I, J, K, L, M]>;
+export function pipe(value: unknown, ...fns: readonly ((value: unknown) => unknown)[]): unknown {
+	return fns.reduce(step, value);
+}
+
+/**
+ * Composes functions, such as the pipeable operators of this module, from left to right into a single function,
+ * which passes its arguments to the first function and its result through the others as with {@link pipe}.
+ *
+ * @function flow
+ * @param {...Function} fns The functions to compose.
+ * @returns {Function} The composed function.
+ *
+ * @example
+ * ```typescript
+ * const parsePort = flow(
+ *   (text: string) => Result.from(() => Number.parseInt(text, 10)),
+ *   andThen(port => port > 0 && port < 65536 ? Result.ok(port) : Result.error(new RangeError("invalid port")))
+ * ); // (text: string) => Result<number, unknown>
+ * ```
+ */
+export function flow<A extends readonly unknown[], B>(ab: (...args: A) => B): (...args: A) => Piped<[B]>;
+export function flow<A extends readonly unknown[], B, C>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>): (...args: A) => Piped<[B, C]>;
+export function flow<A extends readonly unknown[], B, C, D>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>, cd: (value: Settled<C>) => PipeStep<[B, C], D>): (...args: A) => Piped<[B, C, D]>;
+export function flow<A extends readonly unknown[], B, C, D, E>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>, cd: (value: Settled<C>) => PipeStep<[B, C], D>, de: (value: Settled<D>) => PipeStep<[B, C, D], E>): (...args: A) => Piped<[B, C, D, E]>;
+export function flow<A extends readonly unknown[], B, C, D, E, F>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>, cd: (value: Settled<C>) => PipeStep<[B, C], D>, de: (value: Settled<D>) => PipeStep<[B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[B, C, D, E], F>): (...args: A) => Piped<[B, C, D, E, F]>;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>, cd: (value: Settled<C>) => PipeStep<[B, C], D>, de: (value: Settled<D>) => PipeStep<[B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[B, C, D, E, F], G>): (...args: A) => Piped<[B, C, D, E, F, G]>;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>, cd: (value: Settled<C>) => PipeStep<[B, C], D>, de: (value: Settled<D>) => PipeStep<[B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[B, C, D, E, F, G], H>): (...args: A) => Piped<[B, C, D, E, F, G, H]>;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>, cd: (value: Settled<C>) => PipeStep<[B, C], D>, de: (value: Settled<D>) => PipeStep<[B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[B, C, D, E, F, G], H>, hi: (value: Settled<H>) => PipeStep<[B, C, D, E, F, G, H], I>): (...args: A) => Piped<[B, C, D, E, F, G, H, I]>;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>, cd: (value: Settled<C>) => PipeStep<[B, C], D>, de: (value: Settled<D>) => PipeStep<[B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[B, C, D, E, F, G], H>, hi: (value: Settled<H>) => PipeStep<[B, C, D, E, F, G, H], I>, ij: (value: Settled<I>) => PipeStep<[B, C, D, E, F, G, H, I], J>): (...args: A) => Piped<[B, C, D, E, F, G, H, I, J]>;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>, cd: (value: Settled<C>) => PipeStep<[B, C], D>, de: (value: Settled<D>) => PipeStep<[B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[B, C, D, E, F, G], H>, hi: (value: Settled<H>) => PipeStep<[B, C, D, E, F, G, H], I>, ij: (value: Settled<I>) => PipeStep<[B, C, D, E, F, G, H, I], J>, jk: (value: Settled<J>) => PipeStep<[B, C, D, E, F, G, H, I, J], K>): (...args: A) => Piped<[B, C, D, E, F, G, H, I, J, K]>;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K, L>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>, cd: (value: Settled<C>) => PipeStep<[B, C], D>, de: (value: Settled<D>) => PipeStep<[B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[B, C, D, E, F, G], H>, hi: (value: Settled<H>) => PipeStep<[B, C, D, E, F, G, H], I>, ij: (value: Settled<I>) => PipeStep<[B, C, D, E, F, G, H, I], J>, jk: (value: Settled<J>) => PipeStep<[B, C, D, E, F, G, H, I, J], K>, kl: (value: Settled<K>) => PipeStep<[B, C, D, E, F, G, H, I, J, K], L>): (...args: A) => Piped<[B, C, D, E, F, G, H, I, J, K, L]>;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K, L, M>(ab: (...args: A) => B, bc: (value: Settled<B>) => PipeStep<[B], C>, cd: (value: Settled<C>) => PipeStep<[B, C], D>, de: (value: Settled<D>) => PipeStep<[B, C, D], E>, ef: (value: Settled<E>) => PipeStep<[B, C, D, E], F>, fg: (value: Settled<F>) => PipeStep<[B, C, D, E, F], G>, gh: (value: Settled<G>) => PipeStep<[B, C, D, E, F, G], H>, hi: (value: Settled<H>) => PipeStep<[B, C, D, E, F, G, H], I>, ij: (value: Settled<I>) => PipeStep<[B, C, D, E, F, G, H, I], J>, jk: (value: Settled<J>) => PipeStep<[B, C, D, E, F, G, H, I, J], K>, kl: (value: Settled<K>) => PipeStep<[B, C, D, E, F, G, H, I, J, K], L>, lm: (value: Settled<L>) => PipeStep<[B, C, D, E, F, G, H, I, J, K, L], M>): (...args: A) => Piped<[B, C, D, E, F, G, H, I, J, K, L, M]>;
+export function flow(ab: (...args: readonly unknown[]) => unknown, ...fns: readonly ((value: unknown) => unknown)[]): (...args: readonly unknown[]) => unknown {
+	return (...args) => fns.reduce(step, ab(...args));
+}
+
+/**
+ * Internal utility function for running a step of a pipeline with the value returned by the previous step,
+ * or, if that value is a {@link Result.Promise}, with its {@link Result} once settled.
+ *
+ * @param {unknown} value The value returned by the previous step.
+ * @param {(value: unknown) => unknown} fn The step to run.
+ * @returns {unknown} The value returned by the step, or a {@link Result.Promise} resolving to the {@link Result} returned by the step.
+ */
+function step(value: unknown, fn: (value: unknown) => unknown): unknown {
+	if (!(value instanceof Result.Promise)) {
+		return fn(value);
+	}
+
+	const promise: Result.Promise<unknown> = value;
+
+	return new Result.Promise<unknown>((resolve, reject, catcher) => {
+		const settle = (next: unknown): void => {
+			if (next instanceof Result.Promise) {
+				return void next.then(settle, catcher);
+			}
+
+			if (!Result.is(next)) {
+				return catcher(new TypeError("Expected every step of an asynchronous pipeline to return a Result"));
+			}
+
+			if (next.ok) {
+				resolve(next.value);
+			} else {
+				reject(next.error);
+			}
+		};
+
+		void promise.then(result => {
+			try {
+				settle(fn(result));
+			} catch (err) {
+				catcher(err);
+			}
+		}, catcher);
+	});
+}
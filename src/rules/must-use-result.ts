@@ -0,0 +1,52 @@
+import { ESLintUtils } from "@typescript-eslint/utils";
+import { createRule, isDiscardedOnPurpose, kindOf, prefix } from "../internal/lint";
+
+/**
+ * Reports expression statements that discard a {@link Result}, including an awaited {@link Result.Promise},
+ * as its error would go unnoticed. Discarding a result on purpose is written with the `void` operator,
+ * which is offered as a suggestion. There is no autofix, as no fix is safe: adding `void` would silence the very error
+ * the rule reports, so handling or discarding the result is left to a deliberate choice.
+ *
+ * Unawaited {@link Result.Promise} are reported by `no-floating-result-promise` instead.
+ *
+ * @example
+ * ```typescript
+ * saveUser(user); // error: the Result is discarded
+ * await saveUserAsync(user); // error: the Result is discarded
+ *
+ * void saveUser(user); // ok: discarded on purpose
+ * const saved = saveUser(user); // ok
+ * ```
+ */
+export const mustUseResult = createRule({
+	meta: {
+		type: "problem",
+		docs: {
+			description: "Require the Result of an expression to be used"
+		},
+		hasSuggestions: true,
+		messages: {
+			unused: "This Result is discarded, so its error goes unnoticed. Handle it, or discard it explicitly with `void`.",
+			discard: "Discard the Result explicitly with `void`."
+		},
+		schema: []
+	},
+	defaultOptions: [],
+	create(context) {
+		const services = ESLintUtils.getParserServices(context);
+
+		return {
+			ExpressionStatement(node) {
+				if (isDiscardedOnPurpose(node.expression) || kindOf(services, node.expression) !== "result") {
+					return;
+				}
+
+				context.report({
+					node,
+					messageId: "unused",
+					suggest: [ { messageId: "discard", fix: fixer => prefix(fixer, node.expression, "void") } ]
+				});
+			}
+		};
+	}
+});
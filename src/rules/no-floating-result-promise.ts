@@ -0,0 +1,75 @@
+import { ESLintUtils, TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule, isDiscardedOnPurpose, kindOf, prefix } from "../internal/lint";
+
+/**
+ * Reports expression statements that leave a {@link Result.Promise} floating: neither awaited, returned nor assigned,
+ * so that both its error and its rejection go unnoticed. Awaiting it (inside an async function)
+ * or discarding it on purpose with the `void` operator are offered as suggestions. There is no autofix, as no fix is safe:
+ * awaiting changes when the code after it runs, and adding `void` silences the error the rule reports.
+ *
+ * @example
+ * ```typescript
+ * fetchUser(id); // error: the Result.Promise is floating
+ * fetchUser(id).map(render); // error: the Result.Promise is floating
+ *
+ * const user = await fetchUser(id); // ok
+ * void prefetchUser(id); // ok: discarded on purpose
+ * ```
+ */
+export const noFloatingResultPromise = createRule({
+	meta: {
+		type: "problem",
+		docs: {
+			description: "Require Result.Promise expressions to be awaited, returned or assigned"
+		},
+		hasSuggestions: true,
+		messages: {
+			floating: "This Result.Promise is floating, so its error and rejection go unnoticed. Await it, or discard it explicitly with `void`.",
+			await: "Await the Result.Promise.",
+			discard: "Discard the Result.Promise explicitly with `void`."
+		},
+		schema: []
+	},
+	defaultOptions: [],
+	create(context) {
+		const services = ESLintUtils.getParserServices(context);
+
+		return {
+			ExpressionStatement(node) {
+				if (isDiscardedOnPurpose(node.expression) || kindOf(services, node.expression) !== "promise") {
+					return;
+				}
+
+				const suggest: TSESLint.SuggestionReportDescriptor<"await" | "discard">[] = [ { messageId: "discard", fix: fixer => prefix(fixer, node.expression, "void") } ];
+
+				if (isInAsyncFunction(node)) {
+					suggest.unshift({ messageId: "await", fix: fixer => prefix(fixer, node.expression, "await") });
+				}
+
+				context.report({ node, messageId: "floating", suggest });
+			}
+		};
+	}
+});
+
+/**
+ * Internal utility function for determining whether a statement is directly inside an async function,
+ * where `await` can be used.
+ *
+ * @param {TSESTree.Node} node The statement.
+ * @returns {boolean} Whether or not the closest enclosing function is async.
+ */
+function isInAsyncFunction(node: TSESTree.Node): boolean {
+	for (let current = node.parent; current; current = current.parent) {
+		switch (current.type) {
+		case TSESTree.AST_NODE_TYPES.ArrowFunctionExpression:
+		case TSESTree.AST_NODE_TYPES.FunctionDeclaration:
+		case TSESTree.AST_NODE_TYPES.FunctionExpression:
+			return current.async;
+		default:
+			break;
+		}
+	}
+
+	return false;
+}
@@ -0,0 +1,76 @@
+import { ESLintUtils, TSESTree } from "@typescript-eslint/utils";
+import { createRule, resultClassesOf } from "../internal/lint";
+
+const unwrappers: Readonly<Record<string, string>> = {
+	unwrap: "OkResult",
+	expect: "OkResult",
+	unwrapError: "ErrorResult"
+};
+
+/**
+ * Reports calls to `unwrap`, `expect` and `unwrapError` on a {@link Result} that is not known to be of the expected variant,
+ * as they throw otherwise. A call is allowed once the type of the result has been narrowed to that variant by a check
+ * that dominates it, such as `if (result.ok)`, an early `return` on `!result.ok`, or `Result.isOk(result)`.
+ *
+ * Calls on a {@link Result.Promise} are always reported, as its variant cannot be checked before it resolves.
+ * There is neither an autofix nor a suggestion, as the right check depends on how the surrounding code handles the error.
+ *
+ * @example
+ * ```typescript
+ * const user = fetchUser(id).unwrap(); // error: the Result may be an Error
+ *
+ * const result = fetchUser(id);
+ * if (!result.ok) {
+ *   return;
+ * }
+ *
+ * const user = result.unwrap(); // ok: the Result is known to be Ok
+ * ```
+ */
+export const noUnwrapWithoutCheck = createRule({
+	meta: {
+		type: "problem",
+		docs: {
+			description: "Disallow unwrapping a Result that is not checked to be of the expected variant"
+		},
+		messages: {
+			unchecked: "`{{ method }}()` throws unless the Result is {{ variant }}, which is not checked beforehand. Check `ok` first, or handle both variants with `match`, `unwrapOr` or `unwrapOrElse`.",
+			promise: "`{{ method }}()` on a Result.Promise rejects unless it resolves to {{ variant }}, which cannot be checked beforehand. Await it and check `ok` first."
+		},
+		schema: []
+	},
+	defaultOptions: [],
+	create(context) {
+		const services = ESLintUtils.getParserServices(context);
+
+		return {
+			CallExpression(node) {
+				const { callee } = node;
+				if (callee.type !== TSESTree.AST_NODE_TYPES.MemberExpression || callee.computed ||
+					!Object.prototype.hasOwnProperty.call(unwrappers, callee.property.name)) {
+					return;
+				}
+
+				const method = callee.property.name;
+				const expected = unwrappers[method];
+				const classes = resultClassesOf(services.getTypeAtLocation(callee.object));
+				if (!classes.length || classes.every(name => name === expected)) {
+					return;
+				}
+
+				context.report({
+					node,
+					messageId: classes.includes("ResultPromise")
+						? "promise"
+						: "unchecked",
+					data: {
+						method,
+						variant: expected === "OkResult"
+							? "Ok"
+							: "Error"
+					}
+				});
+			}
+		};
+	}
+});
@@ -0,0 +1,82 @@
+import Result from "../src";
+
+async function *pages(count: number, failAt?: number, closed?: jest.Mock): AsyncGenerator<Result<number, string>> {
+	try {
+		for (let page = 1; page <= count; page++) {
+			await Promise.resolve();
+
+			yield page === failAt
+				? Result.error("page " + String(page) + " failed")
+				: Result.ok(page);
+		}
+	} finally {
+		closed?.();
+	}
+}
+
+describe("async", () => {
+	it("should collect streams of results", async() => {
+		const collected = await Result.Async.collect(pages(3));
+		expect(collected.ok && collected.value).toEqual([1, 2, 3]);
+
+		const closed = jest.fn();
+		const failed = await Result.Async.collect(pages(5, 2, closed));
+		expect(!failed.ok && failed.error).toBe("page 2 failed");
+		expect(closed).toHaveBeenCalledTimes(1);
+
+		const sync = await Result.Async.collect([Result.ok(1), Result.Promise.ok(2)]);
+		expect(sync.ok && sync.value).toEqual([1, 2]);
+	});
+	it("should map, filter and take while ok", async() => {
+		const mapped = Result.Async.mapOk(pages(4, 3), page => Promise.resolve(page * 10));
+		const filtered = Result.Async.filterOk(mapped, page => page !== 20);
+
+		const [values, errors] = await Result.Async.partition(filtered);
+		expect(values).toEqual([10, 40]);
+		expect(errors).toEqual([ "page 3 failed" ]);
+
+		const closed = jest.fn();
+		const taken: Result<number, string>[] = [];
+		for await (const result of Result.Async.takeWhileOk(pages(5, 2, closed))) {
+			taken.push(result);
+		}
+
+		expect(taken.map(result => result.ok)).toEqual([true, false]);
+		expect(closed).toHaveBeenCalledTimes(1);
+	});
+	it("should fail fast when iterating", async() => {
+		const seen: number[] = [];
+		const done = await Result.Async.forEach(pages(3), page => {
+			seen.push(page);
+		});
+		expect(done.ok).toBe(true);
+		expect(seen).toEqual([1, 2, 3]);
+
+		const closed = jest.fn();
+		const failed = await Result.Async.forEach(pages(5, undefined, closed), page => page === 2
+			? Result.error(page)
+			: Result.ok());
+		expect(!failed.ok && failed.error).toBe(2);
+		expect(closed).toHaveBeenCalledTimes(1);
+
+		await expect(Result.Async.forEach(pages(1), () => {
+			throw new Error("failure");
+		})).rejects.toThrow("failure");
+	});
+	it("should iterate asynchronously over result promises", async() => {
+		const values: number[] = [];
+		for await (const value of Result.Promise.ok([1, 2, 3])) {
+			values.push(value);
+		}
+
+		for await (const value of Result.Promise.ok(4)) {
+			values.push(value);
+		}
+
+		for await (const value of Result.Promise.error("failure") as Result.Promise<number, string>) {
+			values.push(value);
+		}
+
+		expect(values).toEqual([1, 2, 3, 4]);
+	});
+});
@@ -1,3 +1,4 @@
+import { inspect } from "util";
 import Result from "../src";
 
 describe("error result", () => {
@@ -6,4 +7,12 @@ describe("error result", () => {
 
 		expect(result.ok).toBe(false);
 	});
+	it("should render for debugging", () => {
+		const error = Object.assign(new Error("user 42"), { name: "NotFound" });
+
+		expect(String(Result.error(error))).toBe("Error(NotFound: user 42)");
+		expect(Object.prototype.toString.call(Result.error(error))).toBe("[object Result.Error]");
+		expect(inspect(Result.error(error))).toBe("Error(NotFound: user 42)");
+		expect(inspect(Result.error({ code: 42 }))).toBe("Error({ code: 42 })");
+	});
 });
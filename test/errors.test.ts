@@ -0,0 +1,130 @@
+import Result, { ContextError, TaggedError, TimeoutError } from "../src";
+
+class NotFound extends TaggedError("NotFound") {
+	public readonly id: string;
+
+	public constructor(id: string) {
+		super("user " + id + " not found");
+
+		this.id = id;
+	}
+}
+
+class Conflict extends TaggedError("Conflict") {}
+
+class DbError extends TaggedError("DbError") {}
+
+describe("tagged errors", () => {
+	it("should be tagged errors", () => {
+		const error = new NotFound("42");
+
+		expect(error).toBeInstanceOf(Error);
+		expect(error).toBeInstanceOf(NotFound);
+		expect(error._tag).toBe("NotFound");
+		expect(error.name).toBe("NotFound");
+		expect(error.message).toBe("user 42 not found");
+		expect(new Conflict("conflict", { cause: error }).cause).toBe(error);
+		expect(new TimeoutError(10)._tag).toBe("TimeoutError");
+	});
+	it("should catch a single tag", () => {
+		const find = (id: string): Result<string, NotFound | DbError> => id === "42"
+			? Result.ok("Alice")
+			: id === "0"
+				? Result.error(new DbError())
+				: Result.error(new NotFound(id));
+
+		const recover = (id: string): Result<string, DbError> => find(id).catchTag("NotFound", error => Result.ok("guest " + error.id));
+
+		expect(recover("42").unwrap()).toBe("Alice");
+		expect(recover("43").unwrap()).toBe("guest 43");
+		expect(recover("0").unwrapError()).toBeInstanceOf(DbError);
+	});
+	it("should catch several tags", async() => {
+		const save = (id: string): Result.Promise<string, NotFound | Conflict | DbError> => id === "1"
+			? Result.Promise.error(new NotFound(id))
+			: id === "2"
+				? Result.Promise.error(new Conflict())
+				: Result.Promise.error(new DbError());
+
+		const recover = (id: string): Result.Promise<string, DbError | "conflict"> => save(id).catchTags({
+			NotFound: () => Result.ok("created"),
+			Conflict: () => Result.Promise.error("conflict" as const)
+		});
+
+		const created = await recover("1");
+		expect(created.ok && created.value).toBe("created");
+
+		const conflict = await recover("2");
+		expect(!conflict.ok && conflict.error).toBe("conflict");
+
+		const db = await recover("3");
+		expect(!db.ok && db.error).toBeInstanceOf(DbError);
+
+		const result = Result.error(new Conflict()) as Result<string, NotFound | Conflict>;
+		const handled: Result<string, never> = result.catchTags({
+			NotFound: () => Result.ok("created"),
+			Conflict: () => Result.ok("merged")
+		});
+
+		expect(handled.unwrap()).toBe("merged");
+	});
+	it("should add context to errors", async() => {
+		const error = Result.error(new NotFound("42")) as Result<string, NotFound>;
+
+		const result: Result<string, ContextError<ContextError<NotFound>>> = error.
+			context("loading user 42").
+			withContext(error => "handling request for " + error.cause.id);
+
+		const contextError = result.unwrapError();
+		expect(contextError).toBeInstanceOf(ContextError);
+		expect(contextError.message).toBe("handling request for 42");
+		expect(contextError.cause.cause).toBeInstanceOf(NotFound);
+
+		const promise = await Result.Promise.error(new DbError("timeout")).context("saving user");
+		expect(!promise.ok && promise.error.cause).toBeInstanceOf(DbError);
+
+		const ok = Result.ok(42) as Result<number, NotFound>;
+		expect(ok.context("unused").unwrap()).toBe(42);
+	});
+	it("should report cause chains", () => {
+		const aggregate = Object.assign(new Error("2 errors"), {
+			name: "AggregateError",
+			errors: [new Conflict("first"), "second"]
+		});
+		const root = Object.assign(new Error("request failed"), { cause: aggregate });
+
+		const error = Result.error(root).
+			context("saving user 42").
+			unwrapError();
+
+		expect(Result.report(error)).toBe([
+			"ContextError: saving user 42",
+			"  caused by: Error: request failed",
+			"    caused by: AggregateError: 2 errors",
+			"      [0] Conflict: first",
+			"      [1] second"
+		].join("\n"));
+
+		const json = Result.report(error, "json");
+		expect(json.tag).toBe("ContextError");
+		expect(json.cause?.cause?.errors?.map(error => error.message)).toEqual(["first", "second"]);
+		expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+
+		const full = new Error("disk full");
+		const writes = Object.assign(new Error("2 errors"), {
+			name: "AggregateError",
+			errors: [Object.assign(new Error("write a"), { cause: full }), Object.assign(new Error("write b"), { cause: full })]
+		});
+		expect(Result.report(writes)).toBe([
+			"AggregateError: 2 errors",
+			"  [0] Error: write a",
+			"    caused by: Error: disk full",
+			"  [1] Error: write b",
+			"    caused by: Error: disk full"
+		].join("\n"));
+
+		const cyclic = Object.assign(new Error("cyclic"), { cause: undefined as unknown });
+		cyclic.cause = cyclic;
+		expect(Result.report(cyclic)).toBe("Error: cyclic\n  caused by: [Circular]");
+	});
+});
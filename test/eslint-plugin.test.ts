@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+import { Linter, Rule, RuleTester } from "eslint";
+import path from "path";
+import tseslint from "typescript-eslint";
+import plugin from "../src/eslint-plugin";
+
+const ruleTester = new RuleTester({
+	languageOptions: {
+		parser: tseslint.parser as Linter.Parser,
+		parserOptions: {
+			projectService: {
+				allowDefaultProject: [ "test/*.ts" ]
+			},
+			tsconfigRootDir: path.join(__dirname, "..")
+		}
+	}
+});
+
+const filename = path.join(__dirname, "rule.fixture.ts");
+
+const header = `
+import Result from "../src";
+
+declare function save(): Result<number, string>;
+declare function load(): Result.Promise<number, string>;
+`;
+
+// the rules are typed against typescript-eslint's AST, which ESLint's own typings do not know about
+const rule = (name: keyof typeof plugin.rules): Rule.RuleModule => plugin.rules[name] as unknown as Rule.RuleModule;
+
+const test = (code: string): { name: string; code: string; filename: string } => ({ name: code, code: header + code, filename });
+
+describe("eslint plugin", () => {
+	it("should expose its rules in the recommended config", () => {
+		expect(Object.keys(plugin.rules)).toEqual(["must-use-result", "no-unwrap-without-check", "no-floating-result-promise"]);
+		expect(plugin.configs.recommended.plugins).toEqual({ result: plugin });
+	});
+});
+
+ruleTester.run("must-use-result", rule("must-use-result"), {
+	valid: [
+		test("const result = save();"),
+		test("void save();"),
+		test("let result; result = save();"),
+		test("save().unwrapOr(0);"),
+		test("Math.max(1, 2);")
+	],
+	invalid: [
+		{
+			...test("save();"),
+			errors: [ { messageId: "unused", suggestions: [ { messageId: "discard", output: header + "void save();" } ] } ]
+		},
+		{
+			...test("async function f() { await load(); }"),
+			errors: [ { messageId: "unused", suggestions: [ { messageId: "discard", output: header + "async function f() { void await load(); }" } ] } ]
+		},
+		{
+			...test("declare const flag: boolean; flag ? save() : Result.ok(1);"),
+			errors: [ { messageId: "unused", suggestions: [ { messageId: "discard", output: header + "declare const flag: boolean; void (flag ? save() : Result.ok(1));" } ] } ]
+		}
+	]
+});
+
+ruleTester.run("no-floating-result-promise", rule("no-floating-result-promise"), {
+	valid: [
+		test("async function f() { await load(); }"),
+		test("function f() { return load(); }"),
+		test("void load();"),
+		test("const promise = load().map(value => value * 2);")
+	],
+	invalid: [
+		{
+			...test("load().map(value => value * 2);"),
+			errors: [ { messageId: "floating", suggestions: [ { messageId: "discard", output: header + "void load().map(value => value * 2);" } ] } ]
+		},
+		{
+			...test("async function f() { load(); }"),
+			errors: [
+				{
+					messageId: "floating",
+					suggestions: [
+						{ messageId: "await", output: header + "async function f() { await load(); }" },
+						{ messageId: "discard", output: header + "async function f() { void load(); }" }
+					]
+				}
+			]
+		}
+	]
+});
+
+ruleTester.run("no-unwrap-without-check", rule("no-unwrap-without-check"), {
+	valid: [
+		test("const result = save(); if (result.ok) { result.unwrap(); }"),
+		test("function f() { const result = save(); if (!result.ok) { return; } return result.expect(\"saved\"); }"),
+		test("const result = save(); if (!result.ok) { result.unwrapError(); }"),
+		test("Result.ok(1).unwrap();"),
+		test("save().unwrapOr(0);"),
+		test("const values = new Map<string, number>(); values.get(\"key\");")
+	],
+	invalid: [
+		{
+			...test("save().unwrap();"),
+			errors: [ { messageId: "unchecked", data: { method: "unwrap", variant: "Ok" } } ]
+		},
+		{
+			...test("const result = save(); if (result.ok) { result.unwrapError(); }"),
+			errors: [ { messageId: "unchecked", data: { method: "unwrapError", variant: "Error" } } ]
+		},
+		{
+			...test("save().expect(\"saved\");"),
+			errors: [ { messageId: "unchecked", data: { method: "expect", variant: "Ok" } } ]
+		},
+		{
+			...test("async function f() { return load().unwrap(); }"),
+			errors: [ { messageId: "promise", data: { method: "unwrap", variant: "Ok" } } ]
+		}
+	]
+});
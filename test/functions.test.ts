@@ -0,0 +1,329 @@
+import Result, { ReleaseError } from "../src";
+
+describe("result functions", () => {
+	it("should combine a tuple of oks", () => {
+		const result = Result.all([Result.ok(42), Result.ok("hello"), Result.ok(true)]);
+
+		const values: Result<[number, string, boolean], never> = result;
+
+		expect(values.ok && values.value).toEqual([42, "hello", true]);
+	});
+	it("should combine a record of oks", () => {
+		const result = Result.all({ answer: Result.ok(42), greeting: Result.ok("hello") });
+
+		const values: Result<{ answer: number; greeting: string }, never> = result;
+
+		expect(values.ok && values.value).toEqual({ answer: 42, greeting: "hello" });
+	});
+	it("should return the first error when combining", () => {
+		const result = Result.all([
+			Result.ok(42),
+			Result.error("first") as Result<string, "first">,
+			Result.error(2) as Result<boolean, 2>
+		]);
+
+		const values: Result<[number, string, boolean], "first" | 2> = result;
+
+		expect(!values.ok && values.error).toBe("first");
+	});
+	it("should collect lazily", () => {
+		const consumed: number[] = [];
+
+		function *generate(): Generator<Result<number, string>> {
+			for (const value of [1, 2, 3]) {
+				consumed.push(value);
+
+				yield value === 2
+					? Result.error("two")
+					: Result.ok(value);
+			}
+		}
+
+		const result = Result.collect(generate());
+
+		expect(!result.ok && result.error).toBe("two");
+		expect(consumed).toEqual([1, 2]);
+		expect(Result.collect([Result.ok(1), Result.ok(2)]).unwrap()).toEqual([1, 2]);
+	});
+	it("should accumulate all errors when validating", () => {
+		const valid = Result.validate({ name: Result.ok("Alice"), age: Result.ok(42) });
+		const values: Result<{ name: string; age: number }, never[]> = valid;
+
+		expect(values.ok && values.value).toEqual({ name: "Alice", age: 42 });
+
+		const invalid = Result.validate([
+			Result.error("first") as Result<string, string>,
+			Result.ok(42),
+			Result.error("second") as Result<boolean, string>
+		]);
+		const errors: Result<[string, number, boolean], string[]> = invalid;
+
+		expect(!errors.ok && errors.error).toEqual(["first", "second"]);
+
+		const aggregated: Result<{ port: number; host: string }, Result.Aggregated<string>> = Result.validate({
+			port: Result.error("invalid port") as Result<number, string>,
+			host: Result.error("invalid host") as Result<string, string>
+		}, { aggregate: true, message: "invalid config" });
+		const aggregate = aggregated.unwrapError();
+
+		expect(aggregate.name).toBe("AggregateError");
+		expect(aggregate.message).toBe("invalid config");
+		expect(aggregate.errors).toEqual(["invalid port", "invalid host"]);
+		expect(Result.validate([ Result.ok(1) ], { aggregate: true }).unwrap()).toEqual([ 1 ]);
+
+		const widened = [ true ].includes(false);
+		const either: Result<[number, string], string[] | Result.Aggregated<string>> = Result.validate([
+			Result.error("invalid port") as Result<number, string>,
+			Result.ok("localhost") as Result<string, string>
+		], { aggregate: widened });
+		const record: Result<{ port: number }, string[] | Result.Aggregated<string>> = Result.validate({
+			port: Result.error("invalid port") as Result<number, string>
+		}, { aggregate: widened });
+
+		expect(either.unwrapError()).toEqual([ "invalid port" ]);
+		expect(record.unwrapError()).toEqual([ "invalid port" ]);
+	});
+	it("should partition results", () => {
+		const [values, errors] = Result.partition([Result.ok(1), Result.error("two"), Result.ok(3)]);
+
+		expect(values).toEqual([1, 3]);
+		expect(errors).toEqual([ "two" ]);
+	});
+	it("should short-circuit generators on errors", () => {
+		const parse = (input: string): Result<number, "NaN"> => Number.isNaN(Number(input))
+			? Result.error("NaN")
+			: Result.ok(Number(input));
+		const check = (value: number): Result<number, "negative"> => value < 0
+			? Result.error("negative")
+			: Result.ok(value);
+		const cleanup = jest.fn();
+
+		const sum = (input: string): Result<number, "NaN" | "negative"> => Result.gen(function *() {
+			try {
+				const a = yield* parse(input).bind();
+				const b = yield* check(a).bind();
+
+				return a + b;
+			} finally {
+				cleanup();
+			}
+		});
+
+		expect(sum("21").unwrap()).toBe(42);
+		expect(sum("-1").unwrapError()).toBe("negative");
+		expect(sum("x").unwrapError()).toBe("NaN");
+		expect(cleanup).toHaveBeenCalledTimes(3);
+	});
+	it("should match on results", () => {
+		type NotFound = { readonly _tag: "NotFound"; readonly id: string };
+		type Conflict = { readonly _tag: "Conflict" };
+
+		const find = (id: string): Result<string, NotFound | Conflict> => id === "42"
+			? Result.ok("Alice")
+			: id === "0"
+				? Result.error({ _tag: "Conflict" })
+				: Result.error({ _tag: "NotFound", id });
+
+		const summarize = (id: string): string => find(id).match({
+			ok: name => "found " + name,
+			error: error => "failed " + error._tag
+		});
+
+		expect(summarize("42")).toBe("found Alice");
+		expect(summarize("0")).toBe("failed Conflict");
+
+		const status = (id: string): number => find(id).match({
+			ok: () => 200,
+			error: {
+				NotFound: error => error.id.length,
+				Conflict: () => 409
+			}
+		});
+
+		expect(status("42")).toBe(200);
+		expect(status("43")).toBe(2);
+		expect(status("0")).toBe(409);
+
+		find("42").match({
+			ok: () => 200,
+			// @ts-expect-error every tag of the error union must be handled
+			error: { NotFound: () => 404 }
+		});
+
+		(Result.ok("Alice") as Result<string, NotFound | string>).match({
+			ok: () => 200,
+			// @ts-expect-error every member of the error union must be tagged to match by tag
+			error: { NotFound: () => 404 }
+		});
+
+		const untagged = Result.error("offline") as Result<string, NotFound | string>;
+		expect(untagged.match({ ok: () => 200, error: error => typeof error === "string" ? 503 : 404 })).toBe(503);
+	});
+	it("should map thrown errors and promote thenables", async() => {
+		const parsed: Result<unknown, string> = Result.attempt((): unknown => JSON.parse("{"), { mapError: () => "invalid JSON" });
+		expect(parsed.unwrapError()).toBe("invalid JSON");
+
+		const sum = Result.from((a: number, b: number) => a + b, 1, 2);
+		expect(sum.unwrap()).toBe(3);
+
+		const options = { mapError: (): number => 42 };
+		const received = Result.from((value: typeof options) => value, options);
+		expect(received.unwrap()).toBe(options);
+
+		const promise: Result.Promise<number, string> = Result.attempt(() => Promise.reject(new Error("failure")), {
+			mapError: error => (error as Error).message
+		});
+		expect(promise).toBeInstanceOf(Result.Promise);
+		expect((await promise).unwrapError()).toBe("failure");
+	});
+	it("should wrap throwing functions", async() => {
+		const parse = Result.wrap((text: string): number => {
+			const value = Number(text);
+
+			if (Number.isNaN(value)) {
+				throw new Error("NaN");
+			}
+
+			return value;
+		}, { mapError: () => "NaN" as const });
+
+		const valid: Result<number, "NaN"> = parse("42");
+		expect(valid.unwrap()).toBe(42);
+		expect(parse("x").unwrapError()).toBe("NaN");
+
+		const load = Result.wrap((id: number) => Promise.resolve(id * 2));
+		const loaded: Result.Promise<number> = load(21);
+		expect((await loaded).unwrap()).toBe(42);
+	});
+	it("should compare results structurally", () => {
+		const nested = Result.ok(Result.ok([1, { a: 2 }])) as Result<Result<(number | { a: number })[], string>, string>;
+
+		expect(nested.equals(nested.clone())).toBe(true);
+		expect(nested.equals(Result.ok(Result.ok([1, { a: 2 }])))).toBe(true);
+		expect(nested.equals(Result.ok(Result.ok([1, { a: 3 }])))).toBe(false);
+		expect(nested.equals(Result.ok(Result.error("two")))).toBe(false);
+		expect(nested.equals(Result.error("two"))).toBe(false);
+		expect(nested.flatten().equals(Result.ok([1, { a: 2 }]))).toBe(true);
+
+		const error = Result.error({ code: 42 }) as Result<number, { code: number }>;
+		expect(error.equals(Result.error({ code: 42 }))).toBe(true);
+		expect(error.equals(Result.ok(42))).toBe(false);
+		expect(Result.ok(new Date(0)).equals(Result.ok(new Date(0)))).toBe(true);
+		expect(Result.ok(new Map()).equals(Result.ok(new Map()))).toBe(false);
+
+		type Node = { value: number; next?: Node };
+		const cycle = (value: number): Node => {
+			const node: Node = { value };
+			node.next = { value, next: node };
+
+			return node;
+		};
+		expect(Result.ok(cycle(1)).equals(Result.ok(cycle(1)))).toBe(true);
+		expect(Result.ok(cycle(1)).equals(Result.ok(cycle(2)))).toBe(false);
+
+		const user = Result.ok({ id: 42, name: "Alice" }) as Result<{ id: number; name: string }, never>;
+		expect(user.equals(Result.ok({ id: 42, name: "Bob" }), (a, b) => a.id === b.id)).toBe(true);
+	});
+	it("should order results", () => {
+		const results: Result<number, string>[] = [Result.error("b"), Result.ok(2), Result.error("a"), Result.ok(1)];
+
+		results.sort((a, b) => Result.compare(a, b));
+		expect(results.map(result => result.ok ? result.value : result.error)).toEqual([1, 2, "a", "b"]);
+
+		results.sort((a, b) => Result.compare(a, b, (x, y) => y - x, (x, y) => y.localeCompare(x)));
+		expect(results.map(result => result.ok ? result.value : result.error)).toEqual([2, 1, "b", "a"]);
+	});
+	it("should hash equal results to the same key", () => {
+		const key = Result.hash(Result.ok(Result.ok({ b: [1, "2"], a: null })));
+
+		expect(Result.hash(Result.ok(Result.ok({ a: null, b: [1, "2"] })))).toBe(key);
+		expect(Result.hash(Result.ok(Result.error({ a: null, b: [1, "2"] })))).not.toBe(key);
+		expect(Result.hash(Result.ok({ ok: true, value: { a: null, b: [1, "2"] } }))).not.toBe(key);
+		expect(Result.hash(Result.ok("1"))).not.toBe(Result.hash(Result.ok(1)));
+		expect(Result.hash(Result.ok(new Map()))).not.toBe(Result.hash(Result.ok(new Map())));
+		expect(Result.hash(Result.ok(Symbol.for("id")))).toBe(Result.hash(Result.ok(Symbol.for("id"))));
+		expect(Result.hash(Result.ok(Symbol.for("id")))).not.toBe(Result.hash(Result.ok(Symbol("id"))));
+
+		const cache = new Map([ [key, "cached"] ]);
+		expect(cache.get(Result.hash(Result.ok(Result.ok({ a: null, b: [1, "2"] }))))).toBe("cached");
+	});
+	it("should always release resources", () => {
+		const events: string[] = [];
+		const acquire = (): Result<string, "busy"> => {
+			events.push("acquire");
+
+			return Result.ok("connection");
+		};
+		const release = (closing: Result<void, "close failed">) => (): Result<void, "close failed"> => {
+			events.push("release");
+
+			return closing;
+		};
+
+		expect(Result.bracket(acquire, resource => Result.ok(resource.length), release(Result.ok())).unwrap()).toBe(10);
+		expect(events).toEqual(["acquire", "release"]);
+
+		expect(Result.bracket(acquire, () => Result.error("query failed"), release(Result.ok())).unwrapError()).toBe("query failed");
+		expect(Result.bracket(acquire, () => Result.ok(1), release(Result.error("close failed"))).unwrapError()).toBe("close failed");
+
+		const failed: Result<never, "busy" | "query failed" | "close failed" | ReleaseError<"query failed", "close failed">> = Result.bracket(
+			acquire,
+			(): Result<never, "query failed"> => Result.error("query failed"),
+			release(Result.error("close failed"))
+		);
+		const combined = failed.unwrapError();
+		expect(combined).toBeInstanceOf(ReleaseError);
+		expect(combined).toMatchObject({ error: "query failed", cause: "close failed" });
+
+		events.length = 0;
+		expect(() => Result.bracket(acquire, () => {
+			throw new Error("defect");
+		}, release(Result.ok()))).toThrow("defect");
+		expect(events).toEqual(["acquire", "release"]);
+
+		const released = jest.fn();
+		expect(Result.bracket(() => Result.error("busy"), () => Result.ok(), released).unwrapError()).toBe("busy");
+		expect(released).not.toHaveBeenCalled();
+	});
+	it("should dispose resources", () => {
+		let disposed = 0;
+		const resource = {
+			name: "file",
+			[Symbol.dispose]: () => {
+				disposed++;
+			}
+		};
+
+		expect(Result.bracket(() => Result.ok(resource), file => Result.ok(file.name)).unwrap()).toBe("file");
+		expect(disposed).toBe(1);
+
+		{
+			using file = Result.ok(resource);
+			expect(file.unwrap().name).toBe("file");
+		}
+		expect(disposed).toBe(2);
+
+		{
+			using failed = Result.error("not found") as Result<typeof resource, string>;
+			expect(failed.ok).toBe(false);
+		}
+		expect(disposed).toBe(2);
+	});
+	it("should promisify node-style functions", async() => {
+		const divide = (a: number, b: number, callback: (error: Error | null, quotient?: number) => void): void => {
+			queueMicrotask(() => b === 0
+				? callback(new RangeError("division by zero"))
+				: callback(null, a / b));
+		};
+
+		const safeDivide = Result.promisify(divide);
+		const quotient: Result<number, Error> = await safeDivide(42, 2);
+		expect(quotient).toEqual(Result.ok(21));
+
+		const failed = await safeDivide(42, 0);
+		expect(failed.unwrapError()).toBeInstanceOf(RangeError);
+
+		const done = Result.promisify((callback: (error?: Error | null) => void) => callback());
+		expect(await done()).toEqual(Result.ok());
+	});
+});
@@ -0,0 +1,85 @@
+import Result from "../src";
+import { fromEither, fromNeverthrow, fromNeverthrowAsync, fromTaskEither, fromTsResults, toEither, toNeverthrow, toNeverthrowAsync, toTaskEither, toTsResults } from "../src/interop";
+
+// minimal stand-ins mirroring the shapes of neverthrow, ts-results and fp-ts
+class NeverthrowOk<T, E> {
+	public constructor(public readonly value: T) {}
+	public isOk(): this is NeverthrowOk<T, E> { return true; }
+	public isErr(): this is NeverthrowErr<T, E> { return false; }
+}
+
+class NeverthrowErr<T, E> {
+	public constructor(public readonly error: E) {}
+	public isOk(): this is NeverthrowOk<T, E> { return false; }
+	public isErr(): this is NeverthrowErr<T, E> { return true; }
+}
+
+type NeverthrowResult<T, E> = NeverthrowOk<T, E> | NeverthrowErr<T, E>;
+
+const ok = <T, E = never>(value: T): NeverthrowOk<T, E> => new NeverthrowOk(value);
+const err = <T = never, E = unknown>(error: E): NeverthrowErr<T, E> => new NeverthrowErr(error);
+
+class Ok<T> {
+	public readonly ok = true as const;
+	public readonly err = false as const;
+	public constructor(public readonly val: T) {}
+}
+
+class Err<E> {
+	public readonly ok = false as const;
+	public readonly err = true as const;
+	public constructor(public readonly val: E) {}
+}
+
+const tsResults = {
+	Ok: <T>(value: T): Ok<T> => new Ok(value),
+	Err: <E>(error: E): Err<E> => new Err(error)
+};
+
+describe("interop", () => {
+	it("should convert from and to neverthrow", async() => {
+		const legacy: NeverthrowResult<number, string> = ok(42);
+		const result: Result<number, string> = fromNeverthrow(legacy);
+
+		expect(Result.is(result)).toBe(true);
+		expect(result).toEqual(Result.ok(42));
+		expect(fromNeverthrow(err("missing"))).toEqual(Result.error("missing"));
+
+		const converted: NeverthrowResult<number, string> = toNeverthrow(result, { ok, err });
+		expect(converted).toEqual(ok(42));
+		expect(toNeverthrow(Result.error("missing"), { ok, err })).toEqual(err("missing"));
+
+		const async = fromNeverthrowAsync(Promise.resolve(err<number, string>("missing")));
+		expect(async).toBeInstanceOf(Result.Promise);
+		expect(await async).toEqual(Result.error("missing"));
+		expect(await toNeverthrowAsync(Result.Promise.ok(42), { ok, err })).toEqual(ok(42));
+	});
+	it("should convert from and to ts-results", () => {
+		const result: Result<number, string> = fromTsResults<number, string>(new Ok(42));
+
+		expect(Result.is(result)).toBe(true);
+		expect(result).toEqual(Result.ok(42));
+		expect(fromTsResults(new Err("missing"))).toEqual(Result.error("missing"));
+		expect(toTsResults(result, { ...tsResults })).toEqual(new Ok(42));
+		expect(toTsResults(Result.error("missing"), { ...tsResults })).toEqual(new Err("missing"));
+	});
+	it("should convert from and to fp-ts", async() => {
+		const result = fromEither({ _tag: "Right", right: 42 });
+
+		expect(Result.is(result)).toBe(true);
+		expect(result).toEqual(Result.ok(42));
+		expect(fromEither({ _tag: "Left", left: "missing" })).toEqual(Result.error("missing"));
+		expect(toEither(result)).toEqual({ _tag: "Right", right: 42 });
+		expect(toEither(Result.error("missing"))).toEqual({ _tag: "Left", left: "missing" });
+
+		const task = toTaskEither(Result.Promise.error("missing"));
+		expect(await task()).toEqual({ _tag: "Left", left: "missing" });
+		expect(await fromTaskEither(task)).toEqual(Result.error("missing"));
+	});
+	it("should reject when the foreign promise rejects", async() => {
+		const failure = new Error("network");
+
+		await expect(fromNeverthrowAsync(Promise.reject(failure))).rejects.toBe(failure);
+		await expect(fromTaskEither(() => Promise.reject(failure))).rejects.toBe(failure);
+	});
+});
@@ -0,0 +1,74 @@
+import Result, { DecodeError, TaggedError } from "../src";
+
+class NotFound extends TaggedError("NotFound") {
+	public readonly id: string;
+
+	public constructor(id: string) {
+		super("user " + id + " not found");
+
+		this.id = id;
+	}
+}
+
+describe("json", () => {
+	it("should encode results into a versioned shape", () => {
+		expect(JSON.stringify(Result.ok(42))).toBe("{\"$result\":1,\"ok\":true,\"value\":42}");
+		expect(JSON.parse(JSON.stringify(Result.error("failure")))).toEqual({ $result: 1, ok: false, error: "failure" });
+		expect(JSON.parse(JSON.stringify(Result.ok([Result.ok(1), Result.error(2)])))).toEqual({
+			$result: 1,
+			ok: true,
+			value: [{ $result: 1, ok: true, value: 1 }, { $result: 1, ok: false, error: 2 }]
+		});
+	});
+	it("should round-trip results through JSON", () => {
+		const result = Result.fromJSON(JSON.stringify(Result.ok({ values: [Result.ok(1), Result.error("two")] }))).flatten();
+
+		const { values } = result.unwrap() as { values: Result<number, string>[] };
+		expect(values[0]?.unwrap()).toBe(1);
+		expect(values[1]?.unwrapError()).toBe("two");
+		expect(Result.fromJSON(JSON.parse(JSON.stringify(Result.ok(42)))).flatten().
+			unwrap()).toBe(42);
+	});
+	it("should encode and revive errors", () => {
+		const cause = new NotFound("42");
+		const json = Result.error(Object.assign(new Error("request failed"), { cause })).toJSON();
+
+		expect(json).toMatchObject({
+			ok: false,
+			error: {
+				$error: 1,
+				name: "Error",
+				message: "request failed",
+				cause: { $error: 1, name: "NotFound", message: "user 42 not found", fields: { _tag: "NotFound", id: "42" } }
+			}
+		});
+
+		const error = Result.revive(JSON.parse(JSON.stringify(json))).unwrap().
+			unwrapError() as Error & { cause: NotFound };
+		expect(error).toBeInstanceOf(Error);
+		expect(error.message).toBe("request failed");
+		expect(error.stack).toBe((json.error as { stack: string }).stack);
+		expect(error.cause).toBeInstanceOf(Error);
+		expect(error.cause.name).toBe("NotFound");
+		expect(error.cause._tag).toBe("NotFound");
+		expect(error.cause.id).toBe("42");
+
+		const revived = Result.fromJSON(JSON.stringify(Result.error(cause)), {
+			codecs: [ { name: "NotFound", decode: json => new NotFound(json.fields.id as string) } ]
+		}).flatten().
+			unwrapError();
+
+		expect(revived).toBeInstanceOf(NotFound);
+		expect((revived as NotFound).id).toBe("42");
+
+		const cyclic: Error & { cause?: unknown } = new Error("cyclic");
+		cyclic.cause = cyclic;
+		expect(Result.error(cyclic).toJSON()).toMatchObject({ error: { message: "cyclic", cause: "[Circular]" } });
+	});
+	it("should fail to revive invalid values", () => {
+		expect(Result.fromJSON("{").unwrapError()).toBeInstanceOf(DecodeError);
+		expect(Result.revive({ ok: true, value: 42 }).unwrapError()).toBeInstanceOf(DecodeError);
+		expect(Result.revive({ $result: 2, ok: true, value: 42 }).unwrapError().message).toBe("unsupported version 2, expected 1");
+		expect(Result.revive(null).ok).toBe(false);
+	});
+});
@@ -0,0 +1,39 @@
+import Result, { TaggedError } from "../src";
+import "../src/matchers";
+
+class NotFound extends TaggedError("NotFound") {}
+
+describe("matchers", () => {
+	it("should match result variants", () => {
+		expect(Result.ok(42)).toBeOk();
+		expect(Result.ok(42)).toBeOkWith(42);
+		expect(Result.ok({ id: 42, name: "Alice" })).toBeOkWith(expect.objectContaining({ id: 42 }));
+		expect(Result.ok(42)).not.toBeError();
+		expect(Result.error(new NotFound("missing"))).toBeError();
+		expect(Result.error(new NotFound("missing"))).toBeErrorWith(NotFound);
+		expect(Result.error("failure")).toBeErrorWith("failure");
+		expect(Result.error("failure")).not.toBeOkWith("failure");
+		expect(42).not.toBeOk();
+	});
+	it("should match result promises", async() => {
+		await expect(Result.Promise.ok(42)).toResolveOk();
+		await expect(Result.Promise.ok(42)).toResolveOk(42);
+		await expect(Result.Promise.error("failure")).toResolveError("failure");
+		await expect(Result.Promise.ok(42)).not.toResolveError();
+	});
+	it("should describe mismatches", () => {
+		expect(() => expect(Result.error("failure")).toBeOk()).toThrow("Received: Error(\"failure\")");
+		expect(() => expect(Result.ok(42)).toBeOkWith(43)).toThrow("Expected value: 43");
+		expect(() => expect(Result.ok(42)).toBeErrorWith(NotFound)).toThrow("Expected: Error(instance of NotFound)");
+	});
+	it("should serialize results in snapshots", () => {
+		expect([Result.ok({ id: 42 }), Result.error("failure")]).toMatchInlineSnapshot(`
+[
+  Ok({
+    "id": 42,
+  }),
+  Error("failure"),
+]
+`);
+	});
+});
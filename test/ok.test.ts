@@ -1,3 +1,4 @@
+import { inspect } from "util";
 import Result from "../src";
 
 describe("ok result", () => {
@@ -6,4 +7,13 @@ describe("ok result", () => {
 
 		expect(result.ok).toBe(true);
 	});
+	it("should render for debugging", () => {
+		expect(String(Result.ok(42))).toBe("Ok(42)");
+		expect(String(Result.ok("hello"))).toBe("Ok(\"hello\")");
+		expect(String(Result.ok([1, Result.ok({ a: 1 })]))).toBe("Ok([1, Ok({\"a\":1})])");
+		expect(Object.prototype.toString.call(Result.ok(42))).toBe("[object Result.Ok]");
+		expect(inspect(Result.ok({ a: 1 }))).toBe("Ok({ a: 1 })");
+		expect(inspect(Result.ok(Result.ok({ a: { b: 1 } })), { depth: 2 })).toBe("Ok(Ok({ a: [Object] }))");
+		expect(inspect(Result.ok(42), { colors: true })).toBe("\u001b[36mOk\u001b[39m(\u001b[33m42\u001b[39m)");
+	});
 });
@@ -0,0 +1,67 @@
+import Result, { Option } from "../src";
+
+describe("option", () => {
+	it("should be some", () => {
+		const option = Option.some(42);
+
+		expect(option.some).toBe(true);
+		expect(option.value).toBe(42);
+	});
+	it("should be none", () => {
+		const option = Option.none();
+
+		expect(option.some).toBe(false);
+	});
+	it("should be created from nullable values", () => {
+		expect(Option.from(42).some).toBe(true);
+		expect(Option.from(0).some).toBe(true);
+		expect(Option.from(null).some).toBe(false);
+		expect(Option.from(undefined).some).toBe(false);
+	});
+	it("should map, filter and unwrap", () => {
+		const some = Option.some(2) as Option<number>;
+		const none = Option.none() as Option<number>;
+
+		expect(some.map(value => value * 2).unwrapOr(0)).toBe(4);
+		expect(none.map(value => value * 2).unwrapOr(0)).toBe(0);
+		expect(some.filter(value => value > 2).some).toBe(false);
+		expect(some.andThen(value => Option.some(value + 1)).unwrap()).toBe(3);
+		expect(() => none.unwrap()).toThrow();
+		expect([ ...some ]).toEqual([ 2 ]);
+		expect([ ...none ]).toEqual([]);
+		expect([ ...Option.some([1, 2]).values() ]).toEqual([1, 2]);
+		expect([ ...Option.some(2).values() ]).toEqual([ 2 ]);
+	});
+	it("should convert to and from results", () => {
+		const ok = Result.ok(42) as Result<number, string>;
+		const error = Result.error("failure") as Result<number, string>;
+
+		expect(ok.toOption().unwrapOr(0)).toBe(42);
+		expect(ok.err().some).toBe(false);
+		expect(error.toOption().some).toBe(false);
+		expect(error.err().unwrapOr("")).toBe("failure");
+
+		expect((Option.some(42) as Option<number>).okOr("missing").ok).toBe(true);
+		const missing = Option.none().okOr("missing");
+		expect(missing.unwrapError()).toBe("missing");
+
+		expect(Result.fromNullable(42, "missing").ok).toBe(true);
+		expect(Result.fromNullable(null, "missing").ok).toBe(false);
+	});
+	it("should transpose between results and options", () => {
+		const okSome = Result.ok(Option.some(42)) as Result<Option<number>, string>;
+		const okNone = Result.ok(Option.none()) as Result<Option<number>, string>;
+		const error = Result.error("failure") as Result<Option<number>, string>;
+
+		const transposed = Result.transpose(okSome);
+		expect(transposed.some && transposed.value.ok && transposed.value.value).toBe(42);
+		expect(Result.transpose(okNone).some).toBe(false);
+
+		const transposedError = Result.transpose(error);
+		expect(transposedError.some && !transposedError.value.ok && transposedError.value.error).toBe("failure");
+
+		const back = Option.transpose(transposed);
+		expect(back.ok && back.value.some && back.value.value).toBe(42);
+		expect(Option.transpose(Option.none()).ok).toBe(true);
+	});
+});
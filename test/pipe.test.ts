@@ -0,0 +1,78 @@
+import Result from "../src";
+import "../src/matchers";
+import { andThen, flow, map, mapErr, pipe, tap, unwrapOr } from "../src/pipe";
+
+const positive = (value: number): Result<number, string> => value > 0
+	? Result.ok(value)
+	: Result.error("not positive");
+
+const fetchName = (id: number): Result.Promise<string, "missing"> => id === 404
+	? Result.Promise.error("missing")
+	: Result.Promise.ok("user " + String(id));
+
+describe("pipe", () => {
+	it("should pipe synchronous results through operators", () => {
+		const seen: number[] = [];
+		const result: Result<number, number> = pipe(
+			Result.ok(21) as Result<number, string>,
+			map(value => value * 2),
+			tap(value => void seen.push(value)),
+			andThen(positive),
+			mapErr(error => error.length)
+		);
+
+		expect(result.unwrap()).toBe(42);
+		expect(seen).toEqual([ 42 ]);
+		expect(pipe(Result.ok(-1), andThen(positive), unwrapOr(0))).toBe(0);
+		expect(pipe(42)).toBe(42);
+	});
+	it("should infer types through long pipelines", () => {
+		const length: number = pipe(
+			Result.ok(1) as Result<number, string>,
+			map(value => value + 1),
+			map(value => value * 2),
+			andThen(positive),
+			map(value => [value, value]),
+			map(values => values.length),
+			tap(value => value.toFixed()),
+			map(value => String(value)),
+			mapErr(error => new Error(error)),
+			map(value => value.length),
+			andThen(value => Result.ok({ value })),
+			map(({ value }) => value),
+			unwrapOr(-1)
+		);
+
+		expect(length).toBe(1);
+	});
+	it("should pipe result promises asynchronously", async() => {
+		const name: Result.Promise<number, string> = pipe(
+			Result.Promise.ok(1) as Result.Promise<number, string>,
+			map(value => value * 10),
+			andThen(fetchName),
+			map(value => value.length)
+		);
+		expect(await name).toBeOkWith(7);
+
+		const switched: Result.Promise<string, string> = pipe(Result.ok(404) as Result<number, string>, andThen(fetchName), map(value => value.toUpperCase()));
+		expect(await switched).toBeErrorWith("missing");
+
+		const failed = pipe(Result.Promise.ok(1), map((): number => {
+			throw new Error("failure");
+		}));
+		await expect(failed).rejects.toThrow("failure");
+
+		// @ts-expect-error an asynchronous pipeline cannot be unwrapped
+		await expect(pipe(Result.Promise.ok(1), unwrapOr(0))).rejects.toThrow(TypeError);
+		// @ts-expect-error every step after a Result.Promise must return a Result
+		await expect(pipe(Result.ok(404) as Result<number, string>, andThen(fetchName), unwrapOr(""))).rejects.toThrow(TypeError);
+	});
+	it("should compose operators into functions", async() => {
+		const double = flow((value: number) => positive(value), map(value => value * 2), unwrapOr(0));
+		expect(double(21)).toBe(42);
+		expect(double(-21)).toBe(0);
+
+		const name = flow(fetchName, map(value => value.length));
+		expect(await name(1)).toBeOkWith(6);
+	});
+});
@@ -1,4 +1,6 @@
-import Result from "../src";
+import { EventEmitter } from "events";
+import { inspect } from "util";
+import Result, { AbortedError, Defect, ReleaseError, TimeoutError } from "../src";
 
 describe("result promise", () => {
 	it("should resolve to an ok", async() => {
@@ -31,7 +33,503 @@ describe("result promise", () => {
 			fn();
 		});
 
-		expect(result.ok).toBe(false);
+		expect(result.ok).toBe(true);
 		expect(fn).toHaveBeenCalled();
+		expect(await Result.Promise.ok(1).catch(() => 2)).toEqual(Result.ok(1));
+		expect(await Result.Promise.error("failure").catch(() => 2)).toEqual(Result.error("failure"));
+	});
+	it("should short-circuit generators on errors", async() => {
+		const fetchUser = (id: string): Result.Promise<{ name: string }, "NotFound"> => id === "42"
+			? Result.Promise.ok({ name: "Alice" })
+			: Result.Promise.error("NotFound");
+		const check = (name: string): Result<string, "Invalid"> => name === ""
+			? Result.error("Invalid")
+			: Result.ok(name);
+		const fn = jest.fn();
+
+		const greet = (id: string): Result.Promise<string, "NotFound" | "Invalid"> => Result.Promise.gen(function *() {
+			const user = yield* fetchUser(id).bind();
+			const name = yield* check(user.name).bind();
+
+			fn();
+
+			return "hello " + name;
+		});
+
+		const ok = await greet("42");
+		expect(ok.ok && ok.value).toBe("hello Alice");
+
+		const error = await greet("43");
+		expect(!error.ok && error.error).toBe("NotFound");
+		expect(fn).toHaveBeenCalledTimes(1);
+
+		const cleanup = Result.Promise.gen(function *() {
+			try {
+				const user = yield* fetchUser("42").bind();
+
+				return yield* fetchUser(user.name).bind();
+			} finally {
+				// eslint-disable-next-line no-unsafe-finally -- a throwing cleanup is what is tested
+				throw new Error("cleanup failed");
+			}
+		});
+		await expect(cleanup).rejects.toThrow("cleanup failed");
+	});
+	it("should combine promises", async() => {
+		const all = await Result.Promise.all([Result.Promise.ok(42), Result.Promise.ok("hello"), Result.ok(true)]);
+		const values: Result<[number, string, boolean], never> = all;
+
+		expect(values.ok && values.value).toEqual([42, "hello", true]);
+
+		const record = await Result.Promise.all({ answer: Result.Promise.ok(42), greeting: Result.ok("hello") });
+		const recordValues: Result<{ answer: number; greeting: string }, never> = record;
+
+		expect(recordValues.ok && recordValues.value).toEqual({ answer: 42, greeting: "hello" });
+	});
+	it("should resolve to the first error without waiting", async() => {
+		const pending = new Result.Promise<number, string>(() => undefined);
+
+		const result = await Result.Promise.all([pending, Result.Promise.error("failure")]);
+		const error: Result<[number, never], string> = result;
+
+		expect(!error.ok && error.error).toBe("failure");
+	});
+	it("should settle all promises", async() => {
+		const result = await Result.Promise.allSettled([Result.Promise.ok(42), Result.Promise.error("failure")]);
+		const settled: Result<[Result<number, never>, Result<never, string>], never> = result;
+
+		expect(settled.ok && settled.value.map(result => result.ok)).toEqual([true, false]);
+	});
+	it("should resolve to any ok or all errors", async() => {
+		const any = await Result.Promise.any([Result.Promise.error("first"), Result.Promise.ok(42)]);
+
+		expect(any.ok && any.value).toBe(42);
+
+		const none = await Result.Promise.any({ a: Result.Promise.error("first"), b: Result.Promise.error(2) });
+		const errors: Result<never, { a: string; b: number }> = none;
+
+		expect(!errors.ok && errors.error).toEqual({ a: "first", b: 2 });
+	});
+	it("should race promises", async() => {
+		const pending = new Result.Promise<number, string>(() => undefined);
+
+		const result = await Result.Promise.race([pending, Result.Promise.error("failure")]);
+
+		expect(!result.ok && result.error).toBe("failure");
+	});
+	it("should reject combinators on thrown errors", async() => {
+		const thrown = new Result.Promise<number, string>((_, __, catcher) => catcher(new Error("defect")));
+
+		await expect(Result.Promise.all([Result.Promise.ok(42), thrown])).rejects.toThrow("defect");
+		await expect(Result.Promise.allSettled([ thrown ])).rejects.toThrow("defect");
+	});
+	it("should traverse with bounded concurrency, preserving order", async() => {
+		let active = 0;
+		let maxActive = 0;
+
+		const result = await Result.Promise.traverse([30, 10, 20, 0], async delay => {
+			maxActive = Math.max(maxActive, ++active);
+
+			await new Promise(resolve => setTimeout(resolve, delay));
+
+			active--;
+
+			return delay * 2;
+		}, { concurrency: 2 });
+
+		expect(result.ok && result.value).toEqual([60, 20, 40, 0]);
+		expect(maxActive).toBe(2);
+	});
+	it("should not start new work after an error when traversing", async() => {
+		const fn = jest.fn((item: number) => item === 2
+			? Result.Promise.error("two")
+			: Result.Promise.ok(item));
+
+		const result = await Result.Promise.traverse([1, 2, 3, 4], fn, { concurrency: 1 });
+
+		expect(!result.ok && result.error).toBe("two");
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+	it("should accumulate errors when traversing", async() => {
+		const result = await Result.Promise.traverse([1, 2, 3, 4], item => item % 2 === 0
+			? Result.error("even " + String(item))
+			: Result.ok(item), { stopOnError: false });
+
+		const errors: Result<number[], string[]> = result;
+
+		expect(!errors.ok && errors.error).toEqual(["even 2", "even 4"]);
+
+		const stopOnError = [ true ].includes(false);
+		const widened: Result<number[], string | string[]> = await Result.Promise.traverse([1, 2], (item): Result<number, string> => Result.error("failed " + String(item)), { stopOnError });
+		expect(widened.unwrapError()).toEqual(["failed 1", "failed 2"]);
+	});
+	it("should retry with backoff until success", async() => {
+		let now = 0;
+		const sleeps: number[] = [];
+		const scheduler: Result.Promise.RetryScheduler = {
+			now: () => now,
+			sleep: ms => {
+				sleeps.push(ms);
+				now += ms;
+
+				return Promise.resolve();
+			}
+		};
+
+		const result = await Result.Promise.retry(attempt => attempt < 4
+			? Result.Promise.error("transient " + String(attempt))
+			: Result.Promise.ok(attempt), {
+			maxAttempts: 5,
+			backoff: { type: "exponential", initial: 100, max: 300 },
+			scheduler
+		});
+
+		expect(result.ok && result.value).toBe(4);
+		expect(sleeps).toEqual([100, 200, 300]);
+	});
+	it("should stop retrying once exhausted", async() => {
+		let now = 0;
+		const scheduler: Result.Promise.RetryScheduler = {
+			now: () => now,
+			sleep: ms => {
+				now += ms;
+
+				return Promise.resolve();
+			},
+			random: () => 0.5
+		};
+
+		const fn = jest.fn((attempt: number) => Result.error(attempt));
+
+		const attempts = await Result.Promise.retry(fn, { maxAttempts: 3, history: true, scheduler });
+		expect(!attempts.ok && attempts.error).toEqual([1, 2, 3]);
+
+		const history = [ false ].includes(false);
+		const widened: Result<never, number | number[]> = await Result.Promise.retry(fn, { maxAttempts: 2, history, scheduler });
+		expect(widened.unwrapError()).toEqual([1, 2]);
+
+		const elapsed = await Result.Promise.retry(fn, { maxAttempts: 10, maxElapsed: 250, backoff: { type: "fixed", delay: 200 }, jitter: true, scheduler });
+		expect(!elapsed.ok && elapsed.error).toBe(3);
+
+		const rejected = await Result.Promise.retry(fn, { shouldRetry: (_, attempt) => attempt < 2, scheduler });
+		expect(!rejected.ok && rejected.error).toBe(2);
+	});
+	it("should time out", async() => {
+		const pending = new Result.Promise<number, string>(() => undefined);
+
+		const result = await pending.timeout(10);
+		expect(!result.ok && result.error).toBeInstanceOf(TimeoutError);
+
+		const custom = await pending.timeout(10, () => "slow" as const);
+		const error: Result<number, string> = custom;
+		expect(!error.ok && error.error).toBe("slow");
+
+		const settled = await Result.Promise.ok(42).timeout(10);
+		expect(settled.ok && settled.value).toBe(42);
+	});
+	it("should abort through a signal", async() => {
+		const controller = new AbortController();
+		const cleanup = jest.fn();
+
+		const promise: Result.Promise<number, "failed" | AbortedError> = Result.Promise.fromAbortable(signal => new Promise<number>(() => {
+			signal.addEventListener("abort", cleanup);
+		}), { signal: controller.signal, mapError: () => "failed" as const });
+
+		controller.abort("cancelled");
+
+		const result = await promise;
+		expect(!result.ok && result.error).toBeInstanceOf(AbortedError);
+		expect(!result.ok && (result.error as AbortedError).cause).toBe("cancelled");
+		expect(cleanup).toHaveBeenCalled();
+
+		const executor = jest.fn();
+		const aborted = await new Result.Promise(executor, { signal: controller.signal });
+		expect(aborted.ok).toBe(false);
+		expect(executor).not.toHaveBeenCalled();
+
+		const options = { signal: new AbortController().signal };
+		const received = await Result.Promise.from((value: typeof options) => Promise.resolve(value), options);
+		expect(received.unwrap()).toBe(options);
+
+		const rejected = await Result.Promise.fromAbortable(Promise.reject(new Error("offline")), { signal: options.signal, mapError: () => "failed" as const });
+		expect(rejected.unwrapError()).toBe("failed");
+
+		const listening = new AbortController();
+		const removeEventListener = jest.spyOn(listening.signal, "removeEventListener");
+		const thrown = new Result.Promise<number, string | AbortedError>(() => {
+			throw new Error("defect");
+		}, { signal: listening.signal });
+		await expect(thrown).rejects.toThrow("defect");
+		expect(removeEventListener).toHaveBeenCalledWith("abort", expect.any(Function));
+
+		// @ts-expect-error an abort signal is only accepted when the error type includes AbortedError
+		void new Result.Promise<number, string>(() => undefined, { signal: listening.signal });
+	});
+	it("should match asynchronously", async() => {
+		const ok = Result.Promise.ok(42) as Result.Promise<number, { readonly _tag: "NotFound" }>;
+		const error = Result.Promise.error({ _tag: "NotFound" } as const) as Result.Promise<number, { readonly _tag: "NotFound" }>;
+
+		const matcher: Result.Matcher<number, { readonly _tag: "NotFound" }, Promise<string>, string> = {
+			ok: value => Promise.resolve("value " + String(value)),
+			error: { NotFound: () => "not found" }
+		};
+
+		expect(await ok.match(matcher)).toBe("value 42");
+		expect(await error.match(matcher)).toBe("not found");
+		await expect(ok.match({ ok: () => { throw new Error("failure"); }, error: () => 0 })).rejects.toThrow("failure");
+	});
+	it("should treat synchronous throws as rejections when wrapping", async() => {
+		const thrown = await Result.Promise.from((): Promise<number> => {
+			throw new Error("sync");
+		});
+		expect(!thrown.ok && thrown.error).toBeInstanceOf(Error);
+
+		const fetchUser = Result.Promise.wrap(async(id: string): Promise<string> => {
+			await Promise.resolve();
+
+			if (id === "0") {
+				throw new Error("not found");
+			}
+
+			return "user " + id;
+		}, { mapError: error => (error as Error).message });
+
+		const user: Result<string, string> = await fetchUser("42");
+		expect(user.unwrap()).toBe("user 42");
+		expect((await fetchUser("0")).unwrapError()).toBe("not found");
+	});
+	it("should render its state for debugging", async() => {
+		let resolve: (value: number) => void = () => undefined;
+		const pending = new Result.Promise<number>(res => {
+			resolve = res;
+		});
+
+		expect(String(pending)).toBe("Result.Promise { <pending> }");
+		expect(inspect(pending)).toBe("Result.Promise { <pending> }");
+
+		resolve(42);
+		await pending;
+
+		expect(String(pending)).toBe("Result.Promise { Ok(42) }");
+		expect(inspect(pending)).toBe("Result.Promise { Ok(42) }");
+
+		const rejected = new Result.Promise((_, __, catcher) => catcher(new Error("failure")));
+		await expect(rejected).rejects.toThrow("failure");
+
+		expect(String(rejected)).toBe("Result.Promise { <rejected> Error: failure }");
+		expect(Object.prototype.toString.call(rejected)).toBe("[object Result.Promise]");
+
+		const thrown = new Result.Promise(() => {
+			throw new Error("defect");
+		});
+		await expect(thrown).rejects.toThrow("defect");
+		expect(String(thrown)).toBe("Result.Promise { <rejected> Error: defect }");
+	});
+	it("should mirror result operations asynchronously", async() => {
+		const ok = Result.Promise.ok(2) as Result.Promise<number, string>;
+		const error = Result.Promise.error("failure") as Result.Promise<number, string>;
+
+		expect(await ok.isOkAnd(async value => {
+			await Promise.resolve();
+
+			return value > 1;
+		})).toBe(true);
+		expect(await error.isErrorAnd(err => err === "failure")).toBe(true);
+		expect(await ok.mapOr(0, value => Promise.resolve(value * 2))).toBe(4);
+		expect(await error.mapErr(err => Promise.resolve(err.length)).unwrapError()).toBe(7);
+		expect(await ok.unwrap()).toBe(2);
+		expect(await error.unwrapOr(0)).toBe(0);
+		expect(await error.unwrapOrElse(err => Promise.resolve(err.length))).toBe(7);
+		await expect(error.expect("expected a number")).rejects.toThrow("expected a number: failure");
+		await expect(error.unwrap()).rejects.toBe("failure");
+		expect(await ok.and(Result.Promise.ok("next")).unwrap()).toBe("next");
+		expect(await error.or(Result.ok(3)).unwrap()).toBe(3);
+		expect(await ok.clone().equals(Result.ok(2))).toBe(true);
+		expect(await ok.equals(error)).toBe(false);
+
+		const flattened: Result.Promise<number, string> = (Result.Promise.ok(ok) as Result.Promise<Result.Promise<number, string>, string>).flatten();
+		expect(await flattened.unwrap()).toBe(2);
+		expect((await ok.toOption()).unwrap()).toBe(2);
+		expect((await error.err()).unwrap()).toBe("failure");
+
+		const values: number[] = [];
+		await Result.Promise.ok([1, 2]).forEach(async value => {
+			await Promise.resolve();
+			values.push(value);
+		});
+		for await (const value of ok.values()) {
+			values.push(value);
+		}
+
+		expect(values).toEqual([1, 2, 2]);
+	});
+	it("should await inspection before continuing", async() => {
+		const events: string[] = [];
+
+		const result = await Result.Promise.ok(1).
+			inspect(async value => {
+				await Promise.resolve();
+				events.push("inspected " + String(value));
+			}).
+			map(value => {
+				events.push("mapped " + String(value));
+
+				return value + 1;
+			});
+
+		expect(result.unwrap()).toBe(2);
+		expect(events).toEqual(["inspected 1", "mapped 1"]);
+
+		const failed = await Result.Promise.error("failure").inspectError(async err => {
+			await Promise.resolve();
+			events.push("inspected " + err);
+		});
+
+		expect(failed.ok).toBe(false);
+		expect(events).toHaveLength(3);
+		await expect(Result.Promise.ok(1).inspect(() => Promise.reject(new Error("failure")))).rejects.toThrow("failure");
+	});
+	it("should reject when a callback throws", async() => {
+		const defect = (): never => {
+			throw new Error("defect");
+		};
+		const ok = Result.Promise.ok(1) as Result.Promise<number, string>;
+		const error = Result.Promise.error("failure") as Result.Promise<number, string>;
+
+		await expect(ok.map(defect)).rejects.toThrow("defect");
+		await expect(ok.andThen(defect)).rejects.toThrow("defect");
+		await expect(error.orElse(defect)).rejects.toThrow("defect");
+		await expect(ok.mapOrElse(defect, defect)).rejects.toThrow("defect");
+		await expect(error.mapErr(defect)).rejects.toThrow("defect");
+		await expect(error.withContext(defect)).rejects.toThrow("defect");
+
+		const rejected = new Result.Promise<number, string>((_, __, catcher) => catcher(new Error("rejected")));
+		await expect(rejected.map(value => value + 1).andThen(value => Result.ok(value))).rejects.toThrow("rejected");
+	});
+	it("should fold defects into the error channel", async() => {
+		const reason = new Error("defect");
+
+		const sandboxed: Result<number, string | Defect> = await (Result.Promise.ok(1) as Result.Promise<number, string>).
+			map((): number => {
+				throw reason;
+			}).
+			sandbox();
+
+		const error = sandboxed.unwrapError();
+		expect(error).toBeInstanceOf(Defect);
+		expect((error as Defect).cause).toBe(reason);
+
+		expect(await Result.Promise.ok(1).sandbox()).toEqual(Result.ok(1));
+		expect(await Result.Promise.error("failure").sandbox()).toEqual(Result.error("failure"));
+	});
+	it("should recover from defects", async() => {
+		const recovered: Result<number, string> = await Result.Promise.ok(1).
+			map((): number => {
+				throw new Error("defect");
+			}).
+			catchDefect(reason => Result.error((reason as Error).message));
+
+		expect(recovered.unwrapError()).toBe("defect");
+		expect(await Result.Promise.ok(1).catchDefect(() => Result.ok(2))).toEqual(Result.ok(1));
+		await expect(new Result.Promise((_, __, catcher) => catcher("first")).catchDefect(() => {
+			throw new Error("second");
+		})).rejects.toThrow("second");
+	});
+	it("should always release resources asynchronously", async() => {
+		const events: string[] = [];
+		const release = (): Result.Promise<void, "close failed"> => {
+			events.push("release");
+
+			return Result.Promise.error("close failed");
+		};
+
+		const combined: Result<never, "query failed" | "close failed" | ReleaseError<"query failed", "close failed">> = await Result.Promise.bracket(
+			() => Result.Promise.ok("connection"),
+			(): Result.Promise<never, "query failed"> => Result.Promise.error("query failed"),
+			release
+		);
+		expect(combined.unwrapError()).toBeInstanceOf(ReleaseError);
+		expect(combined.unwrapError()).toMatchObject({ error: "query failed", cause: "close failed" });
+
+		const defect = (): Result<never, never> => {
+			throw new Error("defect");
+		};
+		await expect(Result.Promise.bracket(() => Result.ok("connection"), defect, async() => {
+			await Promise.resolve();
+			events.push("closed");
+		})).rejects.toThrow("defect");
+		expect(events).toEqual(["release", "closed"]);
+
+		const order: string[] = [];
+		const resource = {
+			[Symbol.asyncDispose]: async(): Promise<void> => {
+				await Promise.resolve();
+				order.push("disposed");
+			},
+			[Symbol.dispose]: () => order.push("disposed synchronously")
+		};
+
+		const used = await Result.Promise.bracket(() => Result.ok(resource), () => {
+			order.push("used");
+
+			return Result.Promise.ok(42);
+		});
+		expect(used.unwrap()).toBe(42);
+		expect(order).toEqual(["used", "disposed"]);
+
+		{
+			await using disposable = Result.Promise.ok(resource);
+			expect((await disposable).ok).toBe(true);
+		}
+		expect(order).toEqual(["used", "disposed", "disposed"]);
+	});
+	it("should adapt node-style callbacks", async() => {
+		const read = (path: string, callback: (error: NodeJS.ErrnoException | null, data?: string) => void): void => {
+			setTimeout(() => path === "missing"
+				? callback(Object.assign(new Error("not found"), { code: "ENOENT" }))
+				: callback(null, "contents of " + path));
+		};
+
+		const contents: Result<string, Error> = await Result.Promise.fromCallback<string>(callback => read("config.json", callback));
+		expect(contents).toEqual(Result.ok("contents of config.json"));
+
+		const missing = await Result.Promise.fromCallback<string>(callback => read("missing", callback));
+		expect(missing.ok).toBe(false);
+		expect(missing.unwrapError()).toHaveProperty("code", "ENOENT");
+
+		const failure = new TypeError("invalid path");
+		await expect(Result.Promise.fromCallback(() => {
+			throw failure;
+		})).rejects.toBe(failure);
+	});
+	it("should resolve on the next event of an emitter", async() => {
+		const emitter = new EventEmitter();
+
+		const message = Result.Promise.once<string>(emitter, "message");
+		emitter.emit("message", "hello", "ignored");
+		expect(await message).toEqual(Result.ok("hello"));
+		expect(emitter.listenerCount("message")).toBe(0);
+		expect(emitter.listenerCount("error")).toBe(0);
+
+		const failure = new Error("closed");
+		const failed = Result.Promise.once(emitter, "message", { errorEvent: "close" });
+		emitter.emit("close", failure);
+		expect(await failed).toEqual(Result.error(failure));
+		expect(emitter.listenerCount("message")).toBe(0);
+
+		const controller = new AbortController();
+		const aborted = Result.Promise.once(emitter, "message", { signal: controller.signal });
+		controller.abort();
+		const result: Result<unknown, Error | AbortedError> = await aborted;
+		expect(result.unwrapError()).toBeInstanceOf(AbortedError);
+		expect(emitter.listenerCount("message")).toBe(0);
+		expect(emitter.listenerCount("error")).toBe(0);
+
+		const options: Result.Promise.OnceOptions = { signal: AbortSignal.abort() };
+		const widened: Result<unknown, "closed" | AbortedError> = await Result.Promise.once<unknown, "closed">(emitter, "message", options);
+		expect(widened.unwrapError()).toBeInstanceOf(AbortedError);
+		// @ts-expect-error the options may hold a signal, so the error may be an AbortedError
+		const narrowed: Result.Promise<unknown, "closed"> = Result.Promise.once<unknown, "closed">(emitter, "message", options);
+		expect((await narrowed).ok).toBe(false);
 	});
 });
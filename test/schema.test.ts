@@ -0,0 +1,64 @@
+import Result from "../src";
+
+type User = { name: string; age: number };
+
+const user: Result.StandardSchema<unknown, User> = {
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: value => {
+			const { name, age } = value as Partial<Record<keyof User, unknown>>;
+			const issues = [
+				...typeof name === "string" ? [] : [ { message: "expected a string", path: [ "name" ] } ],
+				...typeof age === "number" ? [] : [ { message: "expected a number", path: [ { key: "age" } ] } ]
+			];
+
+			return issues.length
+				? { issues }
+				: { value: { name, age } as User };
+		}
+	}
+};
+
+const username: Result.StandardSchema<unknown, string> = {
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: async value => {
+			await Promise.resolve();
+
+			return value === "taken"
+				? { issues: [ { message: "already taken" } ] }
+				: { value: String(value) };
+		}
+	}
+};
+
+describe("schema", () => {
+	it("should parse valid input", () => {
+		const result: Result<User, Result.SchemaIssues> = Result.parse(user, { name: "Alice", age: 42 });
+
+		expect(result.unwrap()).toEqual({ name: "Alice", age: 42 });
+	});
+	it("should report issues with normalized paths", () => {
+		const result = Result.parse(user, { age: "42" });
+
+		expect(result.unwrapError()).toEqual([
+			{ message: "expected a string", path: [ "name" ] },
+			{ message: "expected a number", path: [ "age" ] }
+		]);
+	});
+	it("should refuse asynchronous validators when parsing synchronously", () => {
+		expect(() => Result.parse(username, "alice")).toThrow(TypeError);
+	});
+	it("should parse with asynchronous and synchronous validators", async() => {
+		const valid = await Result.Promise.parse(username, "alice");
+		expect(valid.ok && valid.value).toBe("alice");
+
+		const invalid = await Result.Promise.parse(username, "taken");
+		expect(!invalid.ok && invalid.error).toEqual([ { message: "already taken", path: [] } ]);
+
+		const sync = await Result.Promise.parse(user, {});
+		expect(!sync.ok && sync.error.map(issue => issue.path)).toEqual([[ "name" ], [ "age" ]]);
+	});
+});
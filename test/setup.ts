@@ -0,0 +1,5 @@
+// jsdom does not define the explicit resource management symbols, which `using` declarations rely on
+const symbols = Symbol as { dispose?: symbol; asyncDispose?: symbol };
+
+symbols.dispose ??= Symbol.for("Symbol.dispose");
+symbols.asyncDispose ??= Symbol.for("Symbol.asyncDispose");